@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { clientRequestSchema, parseMessage, type IceServersResponse } from "@/lib/protocol"
+import { clientAddress, getSignalingLimiters, rateLimitedResponse } from "@/lib/signaling/rate-limit"
+import { isInRoom } from "@/lib/signaling/registry"
+import { verifySessionToken } from "@/lib/signaling/session-token"
+import { getIceServers } from "@/lib/signaling/turn-credentials"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// ICE servers for a joined peer. TURN credentials relay traffic through our server, so they
+// are only minted for callers holding a valid session token.
+export async function GET(request: Request) {
+  const limit = getSignalingLimiters().ip.take(clientAddress(request))
+  if (!limit.allowed) return rateLimitedResponse(limit.retryAfter)
+
+  const { searchParams } = new URL(request.url)
+  const query = parseMessage(
+    clientRequestSchema,
+    {
+      roomId: searchParams.get("roomId"),
+      peerId: searchParams.get("peerId"),
+      token: searchParams.get("token") ?? undefined,
+    },
+    "ice-servers request",
+  )
+  if (!query) {
+    return NextResponse.json({ error: "roomId and peerId are required" }, { status: 400 })
+  }
+
+  const session = verifySessionToken(query.token, query.roomId, query.peerId)
+  if (!session || !(await isInRoom(query.roomId, query.peerId, session.sessionId))) {
+    return NextResponse.json({ error: "Invalid or missing session token" }, { status: 401 })
+  }
+
+  return NextResponse.json<IceServersResponse>(getIceServers(query.peerId), {
+    headers: { "Cache-Control": "no-store" },
+  })
+}
@@ -0,0 +1,160 @@
+import { NextResponse } from "next/server"
+import {
+  acknowledge,
+  getPublicKey,
+  joinRoom,
+  leaveRoom,
+  pendingEvents,
+  queueSignal,
+  sweepStaleRooms,
+  touchPeer,
+} from "@/lib/signaling/registry"
+import {
+  clientAddress,
+  getSignalingLimiters,
+  PayloadTooLargeError,
+  rateLimitedResponse,
+  readBodyWithLimit,
+} from "@/lib/signaling/rate-limit"
+import { issueSessionToken, verifySessionToken } from "@/lib/signaling/session-token"
+import {
+  signalingRequestSchema,
+  type JoinErrorCode,
+  type HeartbeatResponse,
+  type JoinRoomResponse,
+  type PollResponse,
+  type SignalingMessage,
+} from "@/lib/protocol"
+
+export const dynamic = "force-dynamic"
+// The file-backed signaling store needs Node APIs
+export const runtime = "nodejs"
+
+// Comfortably above the largest SDP the protocol schema accepts
+const MAX_BODY_BYTES = 48 * 1024
+
+const errorResponse = (error: string, status: number) => NextResponse.json({ error }, { status })
+
+const JOIN_ERRORS: Record<JoinErrorCode, { status: number; error: string }> = {
+  ROOM_FULL: { status: 409, error: "This room has reached its maximum number of peers" },
+  PASSWORD_REQUIRED: { status: 401, error: "This room requires a password" },
+  INVALID_PASSWORD: { status: 403, error: "Incorrect room password" },
+  INVALID_SETTINGS: { status: 400, error: "Invalid room settings" },
+  PEER_ID_TAKEN: { status: 409, error: "Another session is already using this peer id" },
+}
+
+const joinError = (code: JoinErrorCode, error = JOIN_ERRORS[code].error) =>
+  NextResponse.json<JoinRoomResponse>({ success: false, code, error }, { status: JOIN_ERRORS[code].status })
+
+export async function POST(request: Request) {
+  const limiters = getSignalingLimiters()
+  const address = clientAddress(request)
+  const ipLimit = limiters.ip.take(address)
+  if (!ipLimit.allowed) return rateLimitedResponse(ipLimit.retryAfter)
+
+  let body: unknown
+  try {
+    body = JSON.parse(await readBodyWithLimit(request, MAX_BODY_BYTES))
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return errorResponse(`Signaling messages are limited to ${MAX_BODY_BYTES} bytes`, 413)
+    }
+    return errorResponse("Invalid JSON body", 400)
+  }
+
+  const parsed = signalingRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    console.warn("Rejected malformed signaling request:", parsed.error.issues)
+    return errorResponse("Invalid signaling message", 400)
+  }
+
+  const message = parsed.data
+  const { roomId, peerId } = message
+
+  // A valid token lets a peer re-join as itself, e.g. after its connection dropped
+  const session = verifySessionToken(message.token, roomId, peerId)
+
+  if (message.type === "join-room") {
+    const joinLimit = limiters.join.take(address)
+    if (!joinLimit.allowed) return rateLimitedResponse(joinLimit.retryAfter)
+  }
+
+  await sweepStaleRooms()
+
+  if (message.type === "join-room") {
+    const result = await joinRoom(roomId, peerId, {
+      publicKey: message.publicKey,
+      password: message.password || undefined,
+      settings: message.settings,
+      sessionId: session?.sessionId,
+    })
+    if (!result.ok) return joinError(result.code, result.error)
+
+    const token = issueSessionToken({ roomId, peerId, sessionId: result.sessionId })
+    return NextResponse.json<JoinRoomResponse>({ success: true, peers: result.peers, keys: result.keys, token })
+  }
+
+  if (!session) {
+    return errorResponse("Invalid or missing session token", 401)
+  }
+  const { sessionId } = session
+
+  // Only charged once the token proves who is asking, so nobody can drain another peer's budget
+  const peerLimit = limiters.peer.take(`${roomId}:${peerId}`)
+  if (!peerLimit.allowed) return rateLimitedResponse(peerLimit.retryAfter)
+
+  if (message.type === "leave") {
+    await leaveRoom(roomId, peerId, sessionId)
+    return NextResponse.json({ success: true })
+  }
+
+  // Any request from a member counts as a heartbeat
+  if (!(await touchPeer(roomId, peerId, sessionId))) {
+    return errorResponse("Peer has not joined this room", 403)
+  }
+
+  switch (message.type) {
+    case "heartbeat":
+      // Hand out a fresh token so long sessions never run into its expiry
+      return NextResponse.json<HeartbeatResponse>({
+        success: true,
+        token: issueSessionToken({ roomId, peerId, sessionId }),
+      })
+
+    case "poll":
+    case "ack": {
+      // Both carry the highest sequence number the client has finished handling
+      const ack = message.type === "poll" ? message.ack : message.seq
+      if (ack) {
+        await acknowledge(roomId, peerId, ack)
+      }
+      if (message.type === "ack") {
+        return NextResponse.json({ success: true })
+      }
+      return NextResponse.json<PollResponse>({ events: await pendingEvents(roomId, peerId) })
+    }
+
+    case "offer":
+    case "answer":
+    case "ice-candidate": {
+      const { data } = message
+      let signal: SignalingMessage
+      if (message.type === "offer") {
+        // Offers introduce the sender, so they carry the key it joined with rather than one it claims
+        const key = await getPublicKey(roomId, peerId)
+        if (!key) return errorResponse("Peer has not joined this room", 403)
+        signal = { type: "offer", from: peerId, offer: message.data.offer, key }
+      } else {
+        signal =
+          message.type === "answer"
+            ? { type: "answer", from: peerId, answer: message.data.answer }
+            : { type: "ice-candidate", from: peerId, candidate: message.data.candidate }
+      }
+
+      if (!(await queueSignal(roomId, data.to, signal))) {
+        return errorResponse("Target peer is not in this room", 404)
+      }
+      return NextResponse.json({ success: true })
+    }
+  }
+}
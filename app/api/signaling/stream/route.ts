@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server"
+import { clientRequestSchema, parseMessage } from "@/lib/protocol"
+import { subscribe } from "@/lib/signaling/events"
+import { verifySessionToken } from "@/lib/signaling/session-token"
+import { clientAddress, getSignalingLimiters, rateLimitedResponse } from "@/lib/signaling/rate-limit"
+import { isInRoom, pendingEvents, touchPeer } from "@/lib/signaling/registry"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+const KEEP_ALIVE_INTERVAL = 15000
+
+// Server-Sent Events feed of everything addressed to a peer. Each "signal" event carries one
+// SignalingEvent with its sequence number as the SSE id, so a reconnecting EventSource resumes
+// from Last-Event-ID. Events are only removed from storage once the client acknowledges them.
+export async function GET(request: Request) {
+  // Opening a stream holds a connection open, so it draws from the same budget as joining
+  const streamLimit = getSignalingLimiters().join.take(clientAddress(request))
+  if (!streamLimit.allowed) return rateLimitedResponse(streamLimit.retryAfter)
+
+  const { searchParams } = new URL(request.url)
+  // EventSource can't send headers, so the session token rides in the query string
+  const query = parseMessage(
+    clientRequestSchema,
+    {
+      roomId: searchParams.get("roomId"),
+      peerId: searchParams.get("peerId"),
+      token: searchParams.get("token") ?? undefined,
+    },
+    "signaling stream request",
+  )
+  if (!query) {
+    return NextResponse.json({ error: "roomId and peerId are required" }, { status: 400 })
+  }
+
+  const { roomId, peerId } = query
+  const session = verifySessionToken(query.token, roomId, peerId)
+  if (!session) {
+    return NextResponse.json({ error: "Invalid or missing session token" }, { status: 401 })
+  }
+  const { sessionId } = session
+  if (!(await isInRoom(roomId, peerId, sessionId))) {
+    return NextResponse.json({ error: "Peer has not joined this room" }, { status: 403 })
+  }
+
+  // Resume after whatever the client last saw, falling back to everything still unacknowledged
+  const resumeFrom = Number(request.headers.get("Last-Event-ID") ?? searchParams.get("after") ?? 0)
+  let cursor = Number.isFinite(resumeFrom) ? resumeFrom : 0
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk))
+      }
+      const send = (event: string, data: unknown, id?: number) =>
+        write(`${id === undefined ? "" : `id: ${id}\n`}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+
+      // Coalesce bursts of notifications into sequential flushes
+      let flushing = false
+      let flushAgain = false
+      const flush = async () => {
+        if (flushing) {
+          flushAgain = true
+          return
+        }
+        flushing = true
+        try {
+          do {
+            flushAgain = false
+            if (closed) break
+            for (const event of await pendingEvents(roomId, peerId, cursor)) {
+              send("signal", event, event.seq)
+              cursor = event.seq
+            }
+          } while (flushAgain)
+        } catch (error) {
+          console.error("Signaling stream flush error:", error)
+        } finally {
+          flushing = false
+        }
+      }
+
+      const close = () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the runtime
+        }
+      }
+
+      const unsubscribe = subscribe(roomId, peerId, flush)
+      // An open stream proves the peer is alive even when its tab throttles heartbeat timers.
+      // Once the peer has been evicted the stream ends, and the client's reconnect gets a 403.
+      const keepAlive = setInterval(async () => {
+        write(": keep-alive\n\n")
+        try {
+          if (!(await touchPeer(roomId, peerId, sessionId))) close()
+        } catch (error) {
+          console.error("Signaling presence error:", error)
+        }
+      }, KEEP_ALIVE_INTERVAL)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        clearInterval(keepAlive)
+      }
+      request.signal.addEventListener("abort", close)
+
+      send("ready", { roomId, peerId })
+      flush()
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
@@ -1,254 +1,92 @@
 "use client"
 
-import { useState, useEffect, useRef, useCallback } from "react"
+import { useEffect, useMemo, useState } from "react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
-import { Users, Send, Wifi, WifiOff, Globe, Copy, AlertCircle } from "lucide-react"
-
-interface Message {
-  id: string
-  sender: string
-  content: string
-  timestamp: Date
-  isOwn: boolean
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { IceSettingsDialog } from "@/components/ice-settings-dialog"
+import { DeliveryStatus, ReadReceipts } from "@/components/delivery-status"
+import { MessageReactions, ReactionPicker } from "@/components/message-reactions"
+import { ReplyQuote, ThreadPanel } from "@/components/message-thread"
+import { PeerDiagnostics } from "@/components/peer-diagnostics"
+import { useP2PRoom, type Message } from "@/hooks/use-p2p-room"
+import { useViewingLatest } from "@/hooks/use-viewing-latest"
+import { loadIceServerOverride } from "@/lib/ice-servers"
+import { Users, Send, Wifi, WifiOff, Globe, Copy, AlertCircle, Activity, Pencil, Trash2, X, Reply } from "lucide-react"
+import { MAX_PEERS_LIMIT, type JoinErrorCode } from "@/lib/protocol"
+
+const JOIN_ERROR_TITLES: Record<JoinErrorCode, string> = {
+  ROOM_FULL: "Room is full",
+  PASSWORD_REQUIRED: "Password required",
+  INVALID_PASSWORD: "Wrong password",
+  INVALID_SETTINGS: "Invalid room settings",
+  PEER_ID_TAKEN: "Already joined elsewhere",
 }
 
-interface PeerConnection {
-  id: string
-  username: string
-  connection: RTCPeerConnection
-  dataChannel?: RTCDataChannel
-  connected: boolean
+const IDLE_EXPIRY_OPTIONS = [
+  { value: "10", label: "10 minutes" },
+  { value: "60", label: "1 hour" },
+  { value: "480", label: "8 hours" },
+  { value: "1440", label: "24 hours" },
+]
+
+function describeTyping(names: string[]) {
+  if (names.length === 0) return ""
+  if (names.length === 1) return `${names[0]} is typing…`
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`
+  return "Several people are typing…"
 }
 
 export default function ReliableP2PChatApp() {
   const [username, setUsername] = useState("")
   const [roomId, setRoomId] = useState("")
-  const [myPeerId] = useState(() => Math.random().toString(36).substring(2, 15))
-  const [isInRoom, setIsInRoom] = useState(false)
-  const [peers, setPeers] = useState<Map<string, PeerConnection>>(new Map())
-  const [messages, setMessages] = useState<Message[]>([])
   const [messageInput, setMessageInput] = useState("")
-  const [connectionStatus, setConnectionStatus] = useState<string>("Disconnected")
-  const [isConnecting, setIsConnecting] = useState(false)
-
-  const pollingRef = useRef<NodeJS.Timeout | null>(null)
-
-  // Enhanced WebRTC configuration with TURN servers
-  const rtcConfig = {
-    iceServers: [
-      { urls: "stun:stun.l.google.com:19302" },
-      { urls: "stun:stun1.l.google.com:19302" },
-      { urls: "stun:stun2.l.google.com:19302" },
-      { urls: "stun:stun.cloudflare.com:3478" },
-      { urls: "stun:stun.nextcloud.com:443" },
-      // Free TURN servers for better connectivity
-      {
-        urls: "turn:openrelay.metered.ca:80",
-        username: "openrelayproject",
-        credential: "openrelayproject",
-      },
-      {
-        urls: "turn:openrelay.metered.ca:443",
-        username: "openrelayproject",
-        credential: "openrelayproject",
-      },
-    ],
-    iceCandidatePoolSize: 10,
-  }
-
-  const addMessage = useCallback((sender: string, content: string, isOwn = false) => {
-    const message: Message = {
-      id: Date.now().toString() + Math.random(),
-      sender,
-      content,
-      timestamp: new Date(),
-      isOwn,
-    }
-    setMessages((prev) => [...prev, message])
-  }, [])
-
-  const sendToSignalingServer = async (data: any) => {
-    try {
-      const response = await fetch("/api/signaling", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ ...data, roomId, peerId: myPeerId }),
-      })
-      return await response.json()
-    } catch (error) {
-      console.error("Signaling error:", error)
-      addMessage("System", "❌ Signaling server error. Check your connection.")
-      return { error: "Network error" }
-    }
-  }
-
-  const createPeerConnection = async (targetPeerId: string, isInitiator: boolean) => {
-    const pc = new RTCPeerConnection(rtcConfig)
-
-    // Enhanced connection monitoring
-    pc.onicecandidate = async (event) => {
-      if (event.candidate) {
-        await sendToSignalingServer({
-          type: "ice-candidate",
-          data: { to: targetPeerId, candidate: event.candidate },
-        })
-      }
-    }
-
-    pc.oniceconnectionstatechange = () => {
-      const state = pc.iceConnectionState
-      addMessage("System", `🔗 ICE connection with ${targetPeerId.substring(0, 6)}: ${state}`)
-
-      if (state === "connected" || state === "completed") {
-        addMessage("System", `✅ Successfully connected to peer ${targetPeerId.substring(0, 6)}!`)
-      } else if (state === "failed") {
-        addMessage("System", `❌ Connection failed with ${targetPeerId.substring(0, 6)}. Retrying...`)
-      }
-    }
-
-    pc.onconnectionstatechange = () => {
-      const state = pc.connectionState
-      addMessage("System", `📡 Connection state with ${targetPeerId.substring(0, 6)}: ${state}`)
-
-      if (state === "connected") {
-        setPeers((prev) => {
-          const updated = new Map(prev)
-          const peer = updated.get(targetPeerId)
-          if (peer) {
-            peer.connected = true
-            updated.set(targetPeerId, peer)
-          }
-          return updated
-        })
-        updateConnectionStatus()
-        setIsConnecting(false)
-      } else if (state === "disconnected" || state === "failed") {
-        setPeers((prev) => {
-          const updated = new Map(prev)
-          updated.delete(targetPeerId)
-          return updated
-        })
-        updateConnectionStatus()
-        setIsConnecting(false)
-      }
-    }
-
-    // Connection timeout
-    setTimeout(() => {
-      if (pc.connectionState !== "connected") {
-        addMessage(
-          "System",
-          `⏰ Connection timeout with ${targetPeerId.substring(0, 6)}. The peer might be offline or behind a restrictive firewall.`,
-        )
-        setIsConnecting(false)
-      }
-    }, 30000)
-
-    if (isInitiator) {
-      const dataChannel = pc.createDataChannel("chat", { ordered: true })
-      setupDataChannel(dataChannel, targetPeerId)
-
-      const offer = await pc.createOffer()
-      await pc.setLocalDescription(offer)
-
-      await sendToSignalingServer({
-        type: "offer",
-        data: { to: targetPeerId, offer },
-      })
-    } else {
-      pc.ondatachannel = (event) => {
-        setupDataChannel(event.channel, targetPeerId)
-      }
-    }
-
-    return pc
-  }
-
-  const setupDataChannel = (dataChannel: RTCDataChannel, peerId: string) => {
-    dataChannel.onopen = () => {
-      addMessage("System", `💬 Chat ready with ${peerId.substring(0, 6)}`)
-      setPeers((prev) => {
-        const updated = new Map(prev)
-        const peer = updated.get(peerId)
-        if (peer) {
-          peer.dataChannel = dataChannel
-          updated.set(peerId, peer)
-        }
-        return updated
-      })
-    }
-
-    dataChannel.onmessage = (event) => {
-      const data = JSON.parse(event.data)
-      addMessage(data.sender, data.content, false)
-    }
-
-    dataChannel.onerror = (error) => {
-      addMessage("System", `❌ Chat error with ${peerId.substring(0, 6)}: ${error}`)
-    }
-  }
-
-  const updateConnectionStatus = () => {
-    const connectedPeers = Array.from(peers.values()).filter((p) => p.connected).length
-    setConnectionStatus(connectedPeers > 0 ? `🌍 Connected to ${connectedPeers} peer(s)` : "Disconnected")
-  }
-
-  const pollSignalingServer = async () => {
-    try {
-      const response = await sendToSignalingServer({ type: "poll" })
-
-      if (response.offer) {
-        const { from, offer } = response.offer
-        addMessage("System", `📨 Received connection offer from ${from.substring(0, 6)}`)
-        setIsConnecting(true)
-
-        const pc = await createPeerConnection(from, false)
-        await pc.setRemoteDescription(offer)
-
-        const answer = await pc.createAnswer()
-        await pc.setLocalDescription(answer)
-
-        await sendToSignalingServer({
-          type: "answer",
-          data: { to: from, answer },
-        })
-
-        setPeers((prev) =>
-          new Map(prev).set(from, {
-            id: from,
-            username: `Peer-${from.substring(0, 6)}`,
-            connection: pc,
-            connected: false,
-          }),
-        )
-      }
-
-      if (response.answer) {
-        const { from, answer } = response.answer
-        addMessage("System", `📨 Received connection answer from ${from.substring(0, 6)}`)
-        const peer = peers.get(from)
-        if (peer) {
-          await peer.connection.setRemoteDescription(answer)
-        }
-      }
-
-      if (response.iceCandidates) {
-        for (const { from, candidate } of response.iceCandidates) {
-          const peer = peers.get(from)
-          if (peer) {
-            await peer.connection.addIceCandidate(candidate)
-          }
-        }
-      }
-    } catch (error) {
-      console.error("Polling error:", error)
-    }
-  }
+  // Own message being edited through the message input, if any
+  const [editingId, setEditingId] = useState<string | null>(null)
+  // Message the next one sent will reply to, if any
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null)
+  // Root message of the thread open in the side panel
+  const [threadId, setThreadId] = useState<string | null>(null)
+  const [roomPassword, setRoomPassword] = useState("")
+  const [maxPeers, setMaxPeers] = useState("8")
+  const [idleTimeoutMinutes, setIdleTimeoutMinutes] = useState("10")
+  const [showDiagnostics, setShowDiagnostics] = useState(false)
+
+  const {
+    peerId,
+    peers,
+    connectedCount,
+    connectionStatus,
+    messages,
+    addMessage,
+    markRead,
+    typingNames,
+    updateDraft,
+    isInRoom,
+    isConnecting,
+    joinError,
+    join,
+    leave,
+    sendMessage: sendToPeers,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    reconnectPolicy,
+  } = useP2PRoom()
+  const { ref: messageListRef, viewingLatest } = useViewingLatest()
+  const messagesById = useMemo(() => new Map(messages.map((message) => [message.id, message])), [messages])
+
+  // Announce a read position only while the newest messages are actually on screen
+  useEffect(() => {
+    if (!viewingLatest) return
+    const latest = messages.findLast((message) => message.clock !== undefined)
+    if (latest) markRead(latest)
+  }, [viewingLatest, messages, markRead])
 
   const joinRoom = async () => {
     if (!username.trim() || !roomId.trim()) {
@@ -256,86 +94,59 @@ export default function ReliableP2PChatApp() {
       return
     }
 
-    setIsConnecting(true)
-    addMessage("System", `🔄 Joining room ${roomId}...`)
-
-    try {
-      const response = await sendToSignalingServer({ type: "join-room" })
-
-      if (response.success) {
-        setIsInRoom(true)
-        addMessage("System", `✅ Joined global room: ${roomId}`)
-        addMessage("System", "🌍 Ready for worldwide P2P connections!")
-
-        // Start polling for signaling messages
-        pollingRef.current = setInterval(pollSignalingServer, 2000)
-
-        // Connect to existing peers
-        if (response.peers.length > 0) {
-          addMessage("System", `👥 Found ${response.peers.length} peer(s) in room. Connecting...`)
-
-          for (const peerId of response.peers) {
-            const pc = await createPeerConnection(peerId, true)
-            setPeers((prev) =>
-              new Map(prev).set(peerId, {
-                id: peerId,
-                username: `Peer-${peerId.substring(0, 6)}`,
-                connection: pc,
-                connected: false,
-              }),
-            )
-          }
-        } else {
-          addMessage("System", "👤 You're the first one in this room. Waiting for others...")
-          setIsConnecting(false)
-        }
-      }
-    } catch (error) {
-      addMessage("System", `❌ Failed to join room: ${error}`)
-      setIsConnecting(false)
-    }
-  }
-
-  const leaveRoom = () => {
-    if (pollingRef.current) {
-      clearInterval(pollingRef.current)
-    }
-
-    peers.forEach((peer) => {
-      peer.connection.close()
+    const override = loadIceServerOverride()
+    await join(roomId, {
+      username,
+      password: roomPassword || undefined,
+      settings: {
+        maxPeers: Number(maxPeers),
+        idleTimeoutMinutes: Number(idleTimeoutMinutes),
+        password: roomPassword || undefined,
+      },
+      iceServers: override?.enabled ? override.iceServers : undefined,
     })
-
-    setPeers(new Map())
-    setIsInRoom(false)
-    setConnectionStatus("Disconnected")
-    setIsConnecting(false)
-    addMessage("System", "👋 Left the room")
   }
 
   const sendMessage = () => {
     if (!messageInput.trim()) return
 
-    const messageData = {
-      sender: username,
-      content: messageInput.trim(),
-    }
-
-    let sentCount = 0
-    peers.forEach((peer) => {
-      if (peer.dataChannel && peer.dataChannel.readyState === "open") {
-        peer.dataChannel.send(JSON.stringify(messageData))
-        sentCount++
+    if (editingId) {
+      setEditingId(null)
+      // Messages from before leaving the room stay listed, but can no longer be edited. The draft
+      // is kept so the text isn't lost.
+      if (!editMessage(editingId, messageInput.trim())) {
+        addMessage("System", "❌ This message can no longer be edited")
+        return
       }
-    })
-
-    if (sentCount > 0) {
-      addMessage(username, messageInput.trim(), true)
       setMessageInput("")
-    } else {
-      addMessage("System", "❌ No connected peers to send message to")
+    } else if (sendToPeers(username, messageInput.trim(), replyingTo ?? undefined)) {
+      setReplyingTo(null)
+      setMessageInput("")
     }
   }
 
+  const startEditing = (message: Message) => {
+    setReplyingTo(null)
+    setEditingId(message.id)
+    setMessageInput(message.content)
+  }
+
+  const startReplying = (message: Message) => {
+    if (editingId) cancelEditing()
+    setReplyingTo(message)
+  }
+
+  const cancelEditing = () => {
+    setEditingId(null)
+    setMessageInput("")
+  }
+
+  const removeMessage = (message: Message) => {
+    if (editingId === message.id) cancelEditing()
+    if (replyingTo?.id === message.id) setReplyingTo(null)
+    if (!deleteMessage(message.id)) addMessage("System", "❌ This message can no longer be deleted")
+  }
+
   const generateRoomId = () => {
     setRoomId(Math.random().toString(36).substring(2, 10).toUpperCase())
   }
@@ -345,14 +156,6 @@ export default function ReliableP2PChatApp() {
     addMessage("System", "📋 Room ID copied to clipboard!")
   }
 
-  useEffect(() => {
-    return () => {
-      if (pollingRef.current) {
-        clearInterval(pollingRef.current)
-      }
-    }
-  }, [])
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
       <div className="max-w-4xl mx-auto space-y-6">
@@ -398,10 +201,62 @@ export default function ReliableP2PChatApp() {
                   </div>
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="text-sm font-medium">Room Password</label>
+                    <Input
+                      type="password"
+                      value={roomPassword}
+                      onChange={(e) => setRoomPassword(e.target.value)}
+                      placeholder="Optional"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Max Peers</label>
+                    <Input
+                      type="number"
+                      min={2}
+                      max={MAX_PEERS_LIMIT}
+                      value={maxPeers}
+                      onChange={(e) => setMaxPeers(e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Expire When Idle For</label>
+                    <Select value={idleTimeoutMinutes} onValueChange={setIdleTimeoutMinutes}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {IDLE_EXPIRY_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Max peers and expiry apply when you create a new room. The password protects a new room or unlocks an
+                  existing one.
+                </p>
+
+                {joinError && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>
+                      {joinError.code ? JOIN_ERROR_TITLES[joinError.code] : "Failed to join room"}
+                    </AlertTitle>
+                    {joinError.message && <AlertDescription>{joinError.message}</AlertDescription>}
+                  </Alert>
+                )}
+
                 <div className="flex gap-2">
                   <Button onClick={joinRoom} className="flex-1" disabled={isConnecting}>
                     {isConnecting ? "🔄 Connecting..." : "🌍 Join Global Room"}
                   </Button>
+                  <IceSettingsDialog />
                 </div>
 
                 <div className="text-sm text-gray-600 bg-blue-50 p-3 rounded-lg">
@@ -426,9 +281,7 @@ export default function ReliableP2PChatApp() {
                       <Copy className="h-3 w-3" />
                     </Button>
                   </p>
-                  <p className="text-sm text-gray-600">
-                    Connected peers: {Array.from(peers.values()).filter((p) => p.connected).length}
-                  </p>
+                  <p className="text-sm text-gray-600">Connected peers: {connectedCount}</p>
                   {isConnecting && (
                     <p className="text-sm text-blue-600 flex items-center gap-1">
                       <AlertCircle className="h-3 w-3" />
@@ -436,7 +289,7 @@ export default function ReliableP2PChatApp() {
                     </p>
                   )}
                 </div>
-                <Button variant="outline" onClick={leaveRoom}>
+                <Button variant="outline" onClick={leave}>
                   Leave Room
                 </Button>
               </div>
@@ -454,10 +307,53 @@ export default function ReliableP2PChatApp() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <ScrollArea className="h-96 w-full border rounded-md p-4">
+                <ScrollArea ref={messageListRef} className="h-96 w-full border rounded-md p-4">
                   <div className="space-y-2">
                     {messages.map((message) => (
-                      <div key={message.id} className={`flex ${message.isOwn ? "justify-end" : "justify-start"}`}>
+                      <div
+                        key={message.id}
+                        className={`group flex items-start gap-1 ${message.isOwn ? "justify-end" : "justify-start"}`}
+                      >
+                        {message.clock !== undefined && !message.deleted && (
+                          <div
+                            className={`flex opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity ${
+                              message.isOwn ? "" : "order-last"
+                            }`}
+                          >
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => startReplying(message)}
+                            >
+                              <Reply className="h-3 w-3" />
+                              <span className="sr-only">Reply</span>
+                            </Button>
+                            <ReactionPicker onPick={(emoji) => toggleReaction(message.id, emoji)} />
+                            {message.isOwn && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-7 w-7"
+                                  onClick={() => startEditing(message)}
+                                >
+                                  <Pencil className="h-3 w-3" />
+                                  <span className="sr-only">Edit message</span>
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-7 w-7"
+                                  onClick={() => removeMessage(message)}
+                                >
+                                  <Trash2 className="h-3 w-3" />
+                                  <span className="sr-only">Delete message</span>
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        )}
                         <div
                           className={`max-w-xs lg:max-w-md px-3 py-2 rounded-lg ${
                             message.isOwn
@@ -470,29 +366,92 @@ export default function ReliableP2PChatApp() {
                           {!message.isOwn && message.sender !== "System" && (
                             <div className="text-xs font-medium mb-1">{message.sender}</div>
                           )}
-                          <div className="break-words">{message.content}</div>
-                          <div className="text-xs opacity-70 mt-1">{message.timestamp.toLocaleTimeString()}</div>
+                          {message.replyTo && (
+                            <ReplyQuote
+                              reference={message.replyTo}
+                              original={messagesById.get(message.replyTo.id)}
+                              onClick={() => setThreadId(message.replyTo!.thread)}
+                            />
+                          )}
+                          {message.deleted ? (
+                            <div className="italic opacity-70">message deleted</div>
+                          ) : (
+                            <div className="break-words">{message.content}</div>
+                          )}
+                          <div className="text-xs opacity-70 mt-1 flex items-center gap-2">
+                            {message.timestamp.toLocaleTimeString()}
+                            {message.edited && !message.deleted && <span>(edited)</span>}
+                            {message.isOwn && <DeliveryStatus delivery={message.delivery} />}
+                          </div>
+                          {message.isOwn && <ReadReceipts readBy={message.readBy} />}
+                          {!message.deleted && (
+                            <MessageReactions
+                              reactions={message.reactions}
+                              peerId={peerId}
+                              onToggle={(emoji) => toggleReaction(message.id, emoji)}
+                            />
+                          )}
+                          {message.replyCount && (
+                            <button
+                              type="button"
+                              className="text-xs underline opacity-80 hover:opacity-100 mt-1"
+                              onClick={() => setThreadId(message.id)}
+                            >
+                              {message.replyCount} {message.replyCount === 1 ? "reply" : "replies"}
+                            </button>
+                          )}
                         </div>
                       </div>
                     ))}
                   </div>
                 </ScrollArea>
-
-                <div className="flex gap-2 mt-4">
+                <p className="text-xs text-gray-500 h-4 mt-1">{describeTyping(typingNames)}</p>
+
+                {editingId && (
+                  <div className="flex items-center gap-2 mt-2 text-xs text-blue-600">
+                    <Pencil className="h-3 w-3" />
+                    Editing message
+                    <Button variant="ghost" size="sm" className="h-6 px-2 ml-auto" onClick={cancelEditing}>
+                      <X className="h-3 w-3" />
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+                {replyingTo && (
+                  <div className="flex items-center gap-2 mt-2 text-xs text-blue-600">
+                    <Reply className="h-3 w-3 shrink-0" />
+                    <span className="truncate">
+                      Replying to {replyingTo.isOwn ? "yourself" : replyingTo.sender}: {replyingTo.content}
+                    </span>
+                    <Button variant="ghost" size="sm" className="h-6 px-2 ml-auto" onClick={() => setReplyingTo(null)}>
+                      <X className="h-3 w-3" />
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+                <div className="flex gap-2 mt-3">
                   <Input
                     value={messageInput}
-                    onChange={(e) => setMessageInput(e.target.value)}
+                    onChange={(e) => {
+                      setMessageInput(e.target.value)
+                      updateDraft(e.target.value)
+                    }}
                     placeholder="Type your message..."
                     onKeyPress={(e) => e.key === "Enter" && sendMessage()}
-                    disabled={Array.from(peers.values()).filter((p) => p.connected).length === 0}
+                    disabled={connectedCount === 0}
                   />
-                  <Button
-                    onClick={sendMessage}
-                    disabled={Array.from(peers.values()).filter((p) => p.connected).length === 0}
-                  >
+                  <Button onClick={sendMessage} disabled={connectedCount === 0}>
                     <Send className="h-4 w-4" />
                   </Button>
                 </div>
+
+                <ThreadPanel
+                  threadId={threadId}
+                  messages={messages}
+                  canReply={connectedCount > 0}
+                  onReply={(content, inReplyTo) => sendToPeers(username, content, inReplyTo)}
+                  onClose={() => setThreadId(null)}
+                />
               </CardContent>
             </Card>
 
@@ -505,7 +464,7 @@ export default function ReliableP2PChatApp() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  {Array.from(peers.values()).map((peer) => (
+                  {peers.map((peer) => (
                     <div key={peer.id} className="flex items-center gap-2 p-2 bg-gray-50 rounded">
                       {peer.connected ? (
                         <Wifi className="h-4 w-4 text-green-500" />
@@ -513,10 +472,16 @@ export default function ReliableP2PChatApp() {
                         <WifiOff className="h-4 w-4 text-orange-500" />
                       )}
                       <span className="text-sm">{peer.username}</span>
+                      {peer.status === "reconnecting" && (
+                        <Badge variant="outline" className="ml-auto text-xs">
+                          Reconnecting
+                          {peer.reconnectAttempt ? ` ${peer.reconnectAttempt}/${reconnectPolicy.maxAttempts}` : "…"}
+                        </Badge>
+                      )}
                     </div>
                   ))}
 
-                  {peers.size === 0 && !isConnecting && (
+                  {peers.length === 0 && !isConnecting && (
                     <p className="text-sm text-gray-500">Waiting for peers to join...</p>
                   )}
 
@@ -534,10 +499,22 @@ export default function ReliableP2PChatApp() {
                     <li>✅ Retry mechanisms</li>
                   </ul>
                 </div>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full mt-4"
+                  onClick={() => setShowDiagnostics((show) => !show)}
+                >
+                  <Activity className="h-4 w-4" />
+                  {showDiagnostics ? "Hide Diagnostics" : "Show Diagnostics"}
+                </Button>
               </CardContent>
             </Card>
           </div>
         )}
+
+        {isInRoom && showDiagnostics && <PeerDiagnostics peers={peers} />}
       </div>
     </div>
   )
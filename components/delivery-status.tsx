@@ -0,0 +1,46 @@
+"use client"
+
+import { AlertCircle, Check, CheckCheck, Clock, Eye } from "lucide-react"
+import type { DeliveryStatus as Delivery } from "@/lib/p2p"
+
+/** Ack progress shown under an own message; an untracked message is still on its way out. */
+export function DeliveryStatus({ delivery }: { delivery?: Delivery }) {
+  if (!delivery || (delivery.state === "sending" && delivery.deliveredTo.length === 0)) {
+    return (
+      <span className="inline-flex items-center gap-1" title="Waiting for peers to confirm">
+        <Clock className="h-3 w-3" />
+        Sending…
+      </span>
+    )
+  }
+
+  const count = `${delivery.deliveredTo.length} of ${delivery.total}`
+  if (delivery.state === "failed") {
+    return (
+      <span className="inline-flex items-center gap-1" title="Some peers never confirmed this message">
+        <AlertCircle className="h-3 w-3" />
+        Failed · delivered to {count}
+      </span>
+    )
+  }
+
+  const Icon = delivery.state === "delivered" ? CheckCheck : Check
+  return (
+    <span className="inline-flex items-center gap-1">
+      <Icon className="h-3 w-3" />
+      Delivered to {count}
+    </span>
+  )
+}
+
+/** Who has read an own message, by name. */
+export function ReadReceipts({ readBy }: { readBy?: string[] }) {
+  if (!readBy?.length) return null
+
+  return (
+    <div className="text-xs opacity-70 flex items-center gap-1" title={readBy.join(", ")}>
+      <Eye className="h-3 w-3 shrink-0" />
+      <span className="truncate">Seen by {readBy.join(", ")}</span>
+    </div>
+  )
+}
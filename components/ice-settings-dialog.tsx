@@ -0,0 +1,110 @@
+"use client"
+
+import { useState } from "react"
+import { z } from "zod"
+import { Settings } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { DEFAULT_ICE_SERVERS, loadIceServerOverride, saveIceServerOverride } from "@/lib/ice-servers"
+import { iceServerSchema } from "@/lib/protocol"
+
+const EXAMPLE = JSON.stringify(
+  [...DEFAULT_ICE_SERVERS, { urls: "turn:turn.example.com:3478", username: "user", credential: "secret" }],
+  null,
+  2,
+)
+
+// Lets a user replace the server-provided ICE servers with their own list, saved in this browser
+export function IceSettingsDialog() {
+  const [open, setOpen] = useState(false)
+  const [enabled, setEnabled] = useState(false)
+  const [text, setText] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      const saved = loadIceServerOverride()
+      setEnabled(saved?.enabled ?? false)
+      setText(saved ? JSON.stringify(saved.iceServers, null, 2) : EXAMPLE)
+      setError(null)
+    }
+    setOpen(next)
+  }
+
+  const save = () => {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(text)
+    } catch {
+      setError("Not valid JSON")
+      return
+    }
+
+    const result = z.array(iceServerSchema).min(1, "List at least one server").safeParse(parsed)
+    if (!result.success) {
+      const issue = result.error.issues[0]
+      setError(`${issue.path.join(".") || "List"}: ${issue.message}`)
+      return
+    }
+
+    saveIceServerOverride({ enabled, iceServers: result.data })
+    setOpen(false)
+  }
+
+  const reset = () => {
+    saveIceServerOverride(null)
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" title="Connection settings">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>ICE Servers</DialogTitle>
+          <DialogDescription>
+            By default the server supplies STUN/TURN servers, including short-lived TURN credentials. Override them here
+            for this browser; changes apply the next time you join a room.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Switch id="ice-override" checked={enabled} onCheckedChange={setEnabled} />
+          <label htmlFor="ice-override" className="text-sm font-medium">
+            Use custom ICE servers
+          </label>
+        </div>
+
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={10}
+          className="font-mono text-xs"
+          disabled={!enabled}
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={reset}>
+            Reset
+          </Button>
+          <Button onClick={save}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
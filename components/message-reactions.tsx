@@ -0,0 +1,75 @@
+"use client"
+
+import { SmilePlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import type { ReactionSummary } from "@/lib/p2p"
+
+const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🎉"]
+
+/** Opens a row of emojis to react with; picking one we've already used withdraws it. */
+export function ReactionPicker({ onPick }: { onPick: (emoji: string) => void }) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7">
+          <SmilePlus className="h-3 w-3" />
+          <span className="sr-only">Add reaction</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-1 flex gap-1">
+        {REACTION_EMOJIS.map((emoji) => (
+          <Button key={emoji} variant="ghost" size="icon" className="h-8 w-8 text-lg" onClick={() => onPick(emoji)}>
+            {emoji}
+          </Button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+/** Count per emoji under a message; hovering one lists who reacted, and clicking toggles our own. */
+export function MessageReactions({
+  reactions,
+  peerId,
+  onToggle,
+}: {
+  reactions?: ReactionSummary[]
+  // Our own peer id, to highlight the reactions that are ours
+  peerId: string
+  onToggle: (emoji: string) => void
+}) {
+  if (!reactions?.length) return null
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {reactions.map(({ emoji, reactors }) => {
+        const own = reactors.some((reactor) => reactor.peerId === peerId)
+        return (
+          <HoverCard key={emoji} openDelay={200}>
+            <HoverCardTrigger asChild>
+              <button
+                type="button"
+                onClick={() => onToggle(emoji)}
+                className={`text-xs rounded-full border px-2 py-0.5 ${
+                  own ? "border-blue-400 bg-blue-50 text-blue-700" : "border-gray-200 bg-white text-gray-700"
+                }`}
+              >
+                {emoji} {reactors.length}
+              </button>
+            </HoverCardTrigger>
+            <HoverCardContent className="w-auto max-w-xs p-2 text-xs">
+              <div className="font-medium mb-1">Reacted with {emoji}</div>
+              {reactors.map((reactor) => (
+                <div key={reactor.peerId} className="truncate">
+                  {reactor.peerId === peerId ? "You" : reactor.name}
+                </div>
+              ))}
+            </HoverCardContent>
+          </HoverCard>
+        )
+      })}
+    </div>
+  )
+}
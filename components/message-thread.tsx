@@ -0,0 +1,128 @@
+"use client"
+
+import { useState } from "react"
+import { Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import type { Message } from "@/hooks/use-p2p-room"
+import type { ReplyReference } from "@/lib/protocol"
+
+/**
+ * The quoted message above a reply. Shows the original as it is now when we have it, so edits and
+ * deletes carry through, and otherwise the excerpt the reply was sent with.
+ */
+export function ReplyQuote({
+  reference,
+  original,
+  onClick,
+}: {
+  reference: ReplyReference
+  original?: Message
+  onClick?: () => void
+}) {
+  const text = original?.deleted ? "message deleted" : (original?.content ?? reference.preview)
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="block w-full text-left border-l-2 border-current pl-2 mb-1 text-xs opacity-80 hover:opacity-100"
+    >
+      <div className="font-medium">{reference.sender}</div>
+      <div className={`truncate ${original?.deleted ? "italic" : ""}`}>{text}</div>
+    </button>
+  )
+}
+
+function ThreadMessage({ message }: { message: Message }) {
+  return (
+    <div className={`rounded-lg px-3 py-2 text-sm ${message.isOwn ? "bg-blue-50" : "bg-gray-100"}`}>
+      <div className="text-xs font-medium mb-1">{message.isOwn ? "You" : message.sender}</div>
+      {message.deleted ? (
+        <div className="italic text-gray-500">message deleted</div>
+      ) : (
+        <div className="break-words">{message.content}</div>
+      )}
+      <div className="text-xs text-gray-500 mt-1">
+        {message.timestamp.toLocaleTimeString()}
+        {message.edited && !message.deleted && " (edited)"}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Side panel collecting every reply to a thread's root message. The root itself may be missing,
+ * for instance when we joined after it was sent, in which case replies are still listed.
+ */
+export function ThreadPanel({
+  threadId,
+  messages,
+  canReply,
+  onReply,
+  onClose,
+}: {
+  // Id of the root message, or null when no thread is open
+  threadId: string | null
+  messages: Message[]
+  canReply: boolean
+  // Returns whether the reply was sent
+  onReply: (content: string, inReplyTo: Message) => boolean
+  onClose: () => void
+}) {
+  const [draft, setDraft] = useState("")
+
+  const root = messages.find((message) => message.id === threadId)
+  const replies = messages.filter((message) => message.replyTo?.thread === threadId)
+  // Replies go to the root, or to the latest reply when we never saw the root
+  const replyTarget = root ?? replies[replies.length - 1]
+  const replyCount = replies.filter((message) => !message.deleted).length
+
+  const send = () => {
+    if (!draft.trim() || !replyTarget) return
+    if (onReply(draft.trim(), replyTarget)) setDraft("")
+  }
+
+  return (
+    <Sheet open={threadId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Thread</SheetTitle>
+          <SheetDescription>
+            {replyCount} {replyCount === 1 ? "reply" : "replies"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-2 px-2">
+          <div className="space-y-2">
+            {root ? (
+              <ThreadMessage message={root} />
+            ) : (
+              <p className="text-xs text-gray-500">The original message isn't available on this device.</p>
+            )}
+            <div className="space-y-2 border-l-2 pl-3 ml-1">
+              {replies.map((message) => (
+                <ThreadMessage key={message.id} message={message} />
+              ))}
+            </div>
+          </div>
+        </ScrollArea>
+
+        <div className="flex gap-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Reply in thread..."
+            onKeyPress={(e) => e.key === "Enter" && send()}
+            disabled={!canReply}
+          />
+          <Button onClick={send} disabled={!canReply}>
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,162 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Activity } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { collectPeerStats, type CandidateType, type PeerStatsSample } from "@/lib/peer-stats"
+
+interface DiagnosticsPeer {
+  id: string
+  username: string
+  connection: RTCPeerConnection
+  dataChannel?: RTCDataChannel
+}
+
+const POLL_INTERVAL = 2000
+// One minute of samples per peer
+const HISTORY_LENGTH = 30
+
+const CANDIDATE_LABELS: Record<CandidateType, string> = {
+  host: "Direct (host)",
+  srflx: "Direct (STUN)",
+  prflx: "Direct (peer reflexive)",
+  relay: "Relayed (TURN)",
+}
+
+const rttChartConfig = {
+  rtt: { label: "RTT (ms)", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig
+
+const throughputChartConfig = {
+  sent: { label: "Sent (KB/s)", color: "hsl(var(--chart-2))" },
+  received: { label: "Received (KB/s)", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Byte counters are cumulative, so throughput comes from the difference between samples
+const toChartPoints = (samples: PeerStatsSample[]) =>
+  samples.slice(1).map((sample, index) => {
+    const previous = samples[index]
+    const seconds = (sample.timestamp - previous.timestamp) / 1000 || 1
+    return {
+      time: new Date(sample.timestamp).toLocaleTimeString(),
+      rtt: sample.roundTripTime === undefined ? undefined : Math.round(sample.roundTripTime * 1000),
+      sent: +((sample.bytesSent - previous.bytesSent) / 1024 / seconds).toFixed(2),
+      received: +((sample.bytesReceived - previous.bytesReceived) / 1024 / seconds).toFixed(2),
+    }
+  })
+
+// Polls getStats for every peer while mounted and charts the recent history
+export function PeerDiagnostics({ peers }: { peers: DiagnosticsPeer[] }) {
+  const [history, setHistory] = useState<Map<string, PeerStatsSample[]>>(new Map())
+  const peersRef = useRef(peers)
+
+  useEffect(() => {
+    peersRef.current = peers
+  }, [peers])
+
+  useEffect(() => {
+    const poll = async () => {
+      const samples = await Promise.all(
+        peersRef.current.map(async (peer) => {
+          try {
+            return [peer.id, await collectPeerStats(peer.connection, peer.dataChannel)] as const
+          } catch (error) {
+            console.error(`Failed to read stats for ${peer.id}:`, error)
+            return [peer.id, null] as const
+          }
+        }),
+      )
+
+      // Peers that have gone away drop out of the history
+      setHistory((prev) => {
+        const next = new Map<string, PeerStatsSample[]>()
+        for (const [peerId, sample] of samples) {
+          const previous = prev.get(peerId) ?? []
+          next.set(peerId, sample ? [...previous, sample].slice(-HISTORY_LENGTH) : previous)
+        }
+        return next
+      })
+    }
+
+    poll()
+    const interval = setInterval(poll, POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Connection Diagnostics
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {peers.length === 0 && <p className="text-sm text-gray-500">No peer connections to inspect yet.</p>}
+
+        {peers.map((peer) => {
+          const samples = history.get(peer.id) ?? []
+          const latest = samples[samples.length - 1]
+          const points = toChartPoints(samples)
+
+          return (
+            <div key={peer.id} className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-sm">{peer.username}</span>
+                <Badge variant="outline">{latest?.connectionState ?? peer.connection.connectionState}</Badge>
+                {latest?.localCandidateType && (
+                  <Badge variant={latest.localCandidateType === "relay" ? "secondary" : "default"}>
+                    {CANDIDATE_LABELS[latest.localCandidateType]}
+                    {latest.remoteCandidateType && ` ↔ ${latest.remoteCandidateType}`}
+                  </Badge>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-gray-600">
+                <div>
+                  RTT: {latest?.roundTripTime === undefined ? "—" : `${Math.round(latest.roundTripTime * 1000)} ms`}
+                </div>
+                <div>Sent: {latest ? formatBytes(latest.bytesSent) : "—"}</div>
+                <div>Received: {latest ? formatBytes(latest.bytesReceived) : "—"}</div>
+                <div>Data channel: {latest?.dataChannelState ?? "none"}</div>
+              </div>
+
+              {points.length > 1 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <ChartContainer config={rttChartConfig} className="h-40 w-full aspect-auto">
+                    <LineChart data={points}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={32} />
+                      <YAxis width={40} tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line dataKey="rtt" type="monotone" stroke="var(--color-rtt)" dot={false} connectNulls />
+                    </LineChart>
+                  </ChartContainer>
+                  <ChartContainer config={throughputChartConfig} className="h-40 w-full aspect-auto">
+                    <LineChart data={points}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={32} />
+                      <YAxis width={40} tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line dataKey="sent" type="monotone" stroke="var(--color-sent)" dot={false} />
+                      <Line dataKey="received" type="monotone" stroke="var(--color-received)" dot={false} />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
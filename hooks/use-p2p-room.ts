@@ -0,0 +1,263 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import {
+  DEFAULT_RECONNECT_POLICY,
+  P2PRoom,
+  type DeliveryStatus,
+  type PeerInfo,
+  type ReactionSummary,
+  type RoomJoinOptions,
+} from "@/lib/p2p"
+import { MAX_REPLY_PREVIEW_LENGTH, type JoinErrorCode, type ReplyReference } from "@/lib/protocol"
+
+export interface Message {
+  id: string
+  sender: string
+  content: string
+  timestamp: Date
+  isOwn: boolean
+  // Set on chat messages: the author's peer id and the envelope's Lamport timestamp
+  peerId?: string
+  clock?: number
+  // Ack progress across the room, on own messages only
+  delivery?: DeliveryStatus
+  // Names of peers that have read this own message
+  readBy?: string[]
+  edited?: boolean
+  // Deleted messages stay in the list as a tombstone
+  deleted?: boolean
+  reactions?: ReactionSummary[]
+  // The message this one answers, as quoted when the reply was sent
+  replyTo?: ReplyReference
+  // Replies in the thread this message started
+  replyCount?: number
+}
+
+interface ReadMarker {
+  name: string
+  clock: number
+}
+
+// Replying to a reply continues the thread of the message it answers
+function toReplyReference(message: Message): ReplyReference {
+  return {
+    id: message.id,
+    thread: message.replyTo?.thread ?? message.id,
+    sender: message.sender,
+    preview: message.content.slice(0, MAX_REPLY_PREVIEW_LENGTH),
+  }
+}
+
+export interface JoinError {
+  code?: JoinErrorCode
+  message?: string
+}
+
+/** Drives a P2PRoom from React: mirrors its events into state and leaves the room on unmount or tab close. */
+export function useP2PRoom() {
+  // Next.js inlines NEXT_PUBLIC_ variables here; the engine itself never reads process.env
+  const [room] = useState(
+    () =>
+      new P2PRoom({
+        reconnectPolicy: {
+          ...DEFAULT_RECONNECT_POLICY,
+          maxAttempts:
+            Number(process.env.NEXT_PUBLIC_P2P_MAX_RECONNECT_ATTEMPTS) || DEFAULT_RECONNECT_POLICY.maxAttempts,
+        },
+      }),
+  )
+  const [peers, setPeers] = useState<PeerInfo[]>([])
+  const [messages, setMessages] = useState<Message[]>([])
+  const [isInRoom, setIsInRoom] = useState(false)
+  const [isConnecting, setIsConnecting] = useState(false)
+  const [joinError, setJoinError] = useState<JoinError | null>(null)
+  // Furthest point each peer has read up to
+  const [readMarkers, setReadMarkers] = useState<Record<string, ReadMarker>>({})
+  // Names of peers currently typing, by peer id
+  const [typingPeers, setTypingPeers] = useState<Record<string, string>>({})
+
+  const appendMessage = useCallback((message: Omit<Message, "timestamp">) => {
+    setMessages((prev) => [...prev, { ...message, timestamp: new Date() }])
+  }, [])
+
+  const addMessage = useCallback(
+    (sender: string, content: string, isOwn = false) => {
+      appendMessage({ id: Date.now().toString() + Math.random(), sender, content, isOwn })
+    },
+    [appendMessage],
+  )
+
+  useEffect(() => {
+    const unsubscribers = [
+      room.on("peers", setPeers),
+      room.on("connecting", setIsConnecting),
+      room.on("disconnected", () => {
+        setIsInRoom(false)
+        setReadMarkers({})
+      }),
+      room.on("system", (text) => addMessage("System", text)),
+      // Chat messages keep their envelope id, so later events can refer back to them
+      room.on("message", ({ id, peerId, clock, sender, content, replyTo }) =>
+        appendMessage({ id, peerId, clock, sender, content, replyTo, isOwn: false }),
+      ),
+      room.on("delivery", (delivery) =>
+        setMessages((prev) => prev.map((message) => (message.id === delivery.id ? { ...message, delivery } : message))),
+      ),
+      room.on("revision", (revision) =>
+        setMessages((prev) =>
+          prev.map((message) => {
+            if (message.id !== revision.id) return message
+            return revision.type === "delete"
+              ? { ...message, content: "", deleted: true }
+              : { ...message, content: revision.content, edited: true }
+          }),
+        ),
+      ),
+      room.on("reaction", ({ id, reactions }) =>
+        setMessages((prev) => prev.map((message) => (message.id === id ? { ...message, reactions } : message))),
+      ),
+      room.on("typing", ({ peerId, name, typing }) =>
+        setTypingPeers((prev) => {
+          const next = { ...prev }
+          if (typing) {
+            next[peerId] = name
+          } else {
+            delete next[peerId]
+          }
+          return next
+        }),
+      ),
+      room.on("read", ({ peerId, name, clock }) =>
+        setReadMarkers((prev) => ((prev[peerId]?.clock ?? 0) >= clock ? prev : { ...prev, [peerId]: { name, clock } })),
+      ),
+    ]
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
+      room.leave()
+    }
+  }, [room, addMessage, appendMessage])
+
+  // Tell the server when the tab goes away; a beacon survives the page being torn down
+  useEffect(() => {
+    if (!isInRoom) return
+
+    const announceLeave = () => room.leave({ beacon: true })
+    window.addEventListener("pagehide", announceLeave)
+    return () => window.removeEventListener("pagehide", announceLeave)
+  }, [room, isInRoom])
+
+  const join = useCallback(
+    async (roomId: string, options: RoomJoinOptions) => {
+      setJoinError(null)
+      try {
+        const outcome = await room.join(roomId, options)
+        if (outcome.success) {
+          setIsInRoom(true)
+        } else {
+          setJoinError({ code: outcome.code, message: outcome.error })
+        }
+      } catch (error) {
+        addMessage("System", `❌ Failed to join room: ${error}`)
+        setIsConnecting(false)
+      }
+    },
+    [room, addMessage],
+  )
+
+  const leave = useCallback(() => {
+    setIsInRoom(false)
+    setReadMarkers({})
+    room.leave()
+  }, [room])
+
+  // Returns whether the message reached at least one peer
+  const sendMessage = useCallback(
+    (sender: string, content: string, inReplyTo?: Message) => {
+      room.stopTyping()
+      const replyTo = inReplyTo && toReplyReference(inReplyTo)
+      const { id, clock, recipients } = room.sendChat(content, replyTo)
+      if (recipients === 0) {
+        addMessage("System", "❌ No connected peers to send message to")
+        return false
+      }
+      appendMessage({ id, peerId: room.peerId, clock, sender, content, replyTo, isOwn: true })
+      return true
+    },
+    [room, addMessage, appendMessage],
+  )
+
+  const editMessage = useCallback((id: string, content: string) => room.editMessage(id, content), [room])
+  const deleteMessage = useCallback((id: string) => room.deleteMessage(id), [room])
+  const toggleReaction = useCallback((id: string, emoji: string) => room.toggleReaction(id, emoji), [room])
+
+  // Call with the draft on every edit
+  const updateDraft = useCallback(
+    (draft: string) => {
+      if (draft.trim()) {
+        room.notifyTyping()
+      } else {
+        room.stopTyping()
+      }
+    },
+    [room],
+  )
+
+  // Called while the newest messages are on screen; system notices don't count as reading
+  const markRead = useCallback(
+    (message: Message) => {
+      if (message.clock !== undefined) room.markRead(message.id, message.clock)
+    },
+    [room],
+  )
+
+  const replyCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    messages.forEach(({ replyTo, deleted }) => {
+      if (replyTo && !deleted) counts.set(replyTo.thread, (counts.get(replyTo.thread) ?? 0) + 1)
+    })
+    return counts
+  }, [messages])
+
+  // A peer has read an own message once it acked it and its read marker has reached it. The ack
+  // check matters because a marker only orders messages, it doesn't prove this one arrived.
+  const annotatedMessages = useMemo(
+    () =>
+      messages.map((message) => {
+        const replyCount = replyCounts.get(message.id)
+        const annotated = replyCount ? { ...message, replyCount } : message
+        if (!message.isOwn || message.clock === undefined) return annotated
+        const readBy = Object.entries(readMarkers)
+          .filter(
+            ([peerId, marker]) => marker.clock >= message.clock! && message.delivery?.deliveredTo.includes(peerId),
+          )
+          .map(([, marker]) => marker.name)
+        return readBy.length > 0 ? { ...annotated, readBy } : annotated
+      }),
+    [messages, readMarkers, replyCounts],
+  )
+
+  const connectedCount = peers.filter((peer) => peer.connected).length
+
+  return {
+    peerId: room.peerId,
+    reconnectPolicy: room.reconnectPolicy,
+    peers,
+    connectedCount,
+    connectionStatus: connectedCount > 0 ? `🌍 Connected to ${connectedCount} peer(s)` : "Disconnected",
+    messages: annotatedMessages,
+    addMessage,
+    markRead,
+    typingNames: Object.values(typingPeers),
+    updateDraft,
+    isInRoom,
+    isConnecting,
+    joinError,
+    join,
+    leave,
+    sendMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+  }
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+// Slack for fractional scroll offsets and zoom rounding
+const BOTTOM_TOLERANCE = 16
+
+/**
+ * Whether the user can currently see the end of a ScrollArea: the tab is visible, the area is on
+ * screen and its viewport is scrolled to the bottom. Pass the returned ref to the ScrollArea.
+ */
+export function useViewingLatest() {
+  const [root, setRoot] = useState<HTMLDivElement | null>(null)
+  const [viewingLatest, setViewingLatest] = useState(false)
+
+  useEffect(() => {
+    const viewport = root?.querySelector<HTMLElement>("[data-radix-scroll-area-viewport]")
+    if (!root || !viewport) return
+
+    let onScreen = false
+    const update = () => {
+      const atBottom = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight <= BOTTOM_TOLERANCE
+      setViewingLatest(onScreen && atBottom && document.visibilityState === "visible")
+    }
+
+    const intersection = new IntersectionObserver(([entry]) => {
+      onScreen = entry.isIntersecting
+      update()
+    })
+    intersection.observe(root)
+    // New messages grow the content, which can move the bottom out of view
+    const resize = new ResizeObserver(update)
+    Array.from(viewport.children).forEach((child) => resize.observe(child))
+
+    viewport.addEventListener("scroll", update, { passive: true })
+    document.addEventListener("visibilitychange", update)
+    return () => {
+      intersection.disconnect()
+      resize.disconnect()
+      viewport.removeEventListener("scroll", update)
+      document.removeEventListener("visibilitychange", update)
+    }
+  }, [root])
+
+  return { ref: setRoot, viewingLatest }
+}
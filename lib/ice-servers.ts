@@ -0,0 +1,31 @@
+import { z } from "zod"
+import { iceServerSchema, parseJsonMessage, type IceServer } from "@/lib/protocol"
+
+// Used when neither the server nor a local override provides a list
+export const DEFAULT_ICE_SERVERS: IceServer[] = [
+  { urls: ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302", "stun:stun.cloudflare.com:3478"] },
+]
+
+const OVERRIDE_STORAGE_KEY = "p2p-chat:ice-servers"
+
+export const iceServerOverrideSchema = z.object({
+  enabled: z.boolean(),
+  iceServers: z.array(iceServerSchema),
+})
+
+// A locally saved ICE server list that replaces the server-provided one while enabled
+export type IceServerOverride = z.infer<typeof iceServerOverrideSchema>
+
+export function loadIceServerOverride(): IceServerOverride | null {
+  if (typeof window === "undefined") return null
+  const raw = window.localStorage.getItem(OVERRIDE_STORAGE_KEY)
+  return raw ? parseJsonMessage(iceServerOverrideSchema, raw, "saved ICE server override") : null
+}
+
+export function saveIceServerOverride(override: IceServerOverride | null) {
+  if (override) {
+    window.localStorage.setItem(OVERRIDE_STORAGE_KEY, JSON.stringify(override))
+  } else {
+    window.localStorage.removeItem(OVERRIDE_STORAGE_KEY)
+  }
+}
@@ -0,0 +1,135 @@
+import type { Envelope } from "@/lib/protocol"
+
+export interface DeliveryPolicy {
+  // How long to wait for a recipient's ack before retransmitting to it
+  ackTimeout: number
+  // Transmissions per recipient, including the first, before it counts as failed
+  maxAttempts: number
+}
+
+export const DEFAULT_DELIVERY_POLICY: DeliveryPolicy = {
+  ackTimeout: 3000,
+  maxAttempts: 3,
+}
+
+// Failed messages kept around in case their acks still turn up; the oldest are forgotten first
+const MAX_FAILED_DELIVERIES = 100
+
+export type DeliveryState = "sending" | "delivered" | "failed"
+
+export interface DeliveryStatus {
+  id: string
+  state: DeliveryState
+  // Peers that acknowledged the message, out of `total` recipients
+  deliveredTo: string[]
+  total: number
+}
+
+interface Delivery {
+  envelope: Envelope
+  recipients: Set<string>
+  acked: Set<string>
+  attempts: number
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+/**
+ * Tracks per-recipient acks for envelopes we sent, retransmitting to recipients that stay silent
+ * and reporting a status whenever the picture changes. Acks that arrive after a message was
+ * marked failed still count, so the status can recover.
+ */
+export class DeliveryTracker {
+  private deliveries = new Map<string, Delivery>()
+  // Ids of failed deliveries, oldest first
+  private failed = new Set<string>()
+
+  constructor(
+    private readonly policy: DeliveryPolicy,
+    private readonly retransmit: (envelope: Envelope, peerId: string, attempt: number) => void,
+    private readonly onStatus: (status: DeliveryStatus) => void,
+  ) {}
+
+  track(envelope: Envelope, recipients: string[]) {
+    const delivery: Delivery = {
+      envelope,
+      recipients: new Set(recipients),
+      acked: new Set(),
+      attempts: 1,
+      timer: null,
+    }
+    this.deliveries.set(envelope.id, delivery)
+    this.schedule(delivery)
+    this.report(delivery)
+  }
+
+  acknowledge(id: string, peerId: string) {
+    const delivery = this.deliveries.get(id)
+    if (!delivery?.recipients.has(peerId) || delivery.acked.has(peerId)) return
+    delivery.acked.add(peerId)
+    this.settleIfComplete(delivery)
+    this.report(delivery)
+  }
+
+  /** Stops waiting on a peer that left the room. */
+  forgetPeer(peerId: string) {
+    this.deliveries.forEach((delivery) => {
+      if (delivery.acked.has(peerId) || !delivery.recipients.delete(peerId)) return
+      this.settleIfComplete(delivery)
+      this.report(delivery)
+    })
+  }
+
+  clear() {
+    this.deliveries.forEach((delivery) => delivery.timer && clearTimeout(delivery.timer))
+    this.deliveries.clear()
+    this.failed.clear()
+  }
+
+  private missing(delivery: Delivery) {
+    return Array.from(delivery.recipients).filter((peerId) => !delivery.acked.has(peerId))
+  }
+
+  private schedule(delivery: Delivery) {
+    delivery.timer = setTimeout(() => {
+      delivery.timer = null
+      const missing = this.missing(delivery)
+      if (missing.length === 0) return
+
+      if (delivery.attempts >= this.policy.maxAttempts) {
+        this.report(delivery)
+        return
+      }
+      missing.forEach((peerId) => this.retransmit(delivery.envelope, peerId, delivery.attempts))
+      delivery.attempts++
+      this.schedule(delivery)
+    }, this.policy.ackTimeout)
+  }
+
+  private settleIfComplete(delivery: Delivery) {
+    if (delivery.timer && this.missing(delivery).length === 0) {
+      clearTimeout(delivery.timer)
+      delivery.timer = null
+    }
+  }
+
+  private report(delivery: Delivery) {
+    const deliveredTo = Array.from(delivery.acked).filter((peerId) => delivery.recipients.has(peerId))
+    const complete = deliveredTo.length === delivery.recipients.size
+    const { id } = delivery.envelope
+    const state = complete ? "delivered" : delivery.timer ? "sending" : "failed"
+    this.onStatus({ id, state, deliveredTo, total: delivery.recipients.size })
+
+    // Nothing more can happen to a delivered message, so only failed ones stay tracked
+    if (state === "delivered") {
+      this.deliveries.delete(id)
+      this.failed.delete(id)
+    } else if (state === "failed" && !this.failed.has(id)) {
+      this.failed.add(id)
+      if (this.failed.size > MAX_FAILED_DELIVERIES) {
+        const oldest = this.failed.values().next().value!
+        this.failed.delete(oldest)
+        this.deliveries.delete(oldest)
+      }
+    }
+  }
+}
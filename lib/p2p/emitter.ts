@@ -0,0 +1,21 @@
+type Listener<T> = (payload: T) => void
+
+/** Minimal typed event emitter, so the engine runs anywhere without a DOM or Node's events module. */
+export class TypedEmitter<Events extends Record<string, unknown>> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {}
+
+  /** Subscribes to an event and returns the matching unsubscribe function. */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    const set = (this.listeners[event] ??= new Set())
+    set.add(listener)
+    return () => this.off(event, listener)
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners[event]?.delete(listener)
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners[event]?.forEach((listener) => listener(payload))
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  ENVELOPE_VERSION,
+  envelopePayloadSchemas,
+  parseMessage,
+  type Envelope,
+  type EnvelopePayload,
+  type EnvelopeType,
+} from "@/lib/protocol"
+
+/** `via` is the neighbour the envelope arrived from, which differs from `envelope.from` when it was relayed. */
+export type EnvelopeHandler<K extends EnvelopeType> = (
+  payload: EnvelopePayload<K>,
+  envelope: Envelope,
+  via: string,
+) => void
+
+function isKnownType(type: string): type is EnvelopeType {
+  return Object.prototype.hasOwnProperty.call(envelopePayloadSchemas, type)
+}
+
+/** Routes inbound envelopes to the handler registered for their type, validating the payload first. */
+export class EnvelopeDispatcher {
+  private handlers: { [K in EnvelopeType]?: EnvelopeHandler<K> } = {}
+
+  on<K extends EnvelopeType>(type: K, handler: EnvelopeHandler<K>) {
+    this.handlers[type] = handler as (typeof this.handlers)[K]
+  }
+
+  /**
+   * Hands the envelope to its handler and reports whether it was accepted. Envelopes from newer
+   * protocol versions, unknown types and payloads that fail validation are dropped, and shouldn't
+   * be acked as if they had been delivered.
+   */
+  dispatch(envelope: Envelope, via: string) {
+    if (envelope.v > ENVELOPE_VERSION) {
+      console.warn(`Ignored v${envelope.v} envelope from ${envelope.from}; this client speaks v${ENVELOPE_VERSION}`)
+      return false
+    }
+    // Types added by newer clients are skipped rather than treated as errors
+    if (!isKnownType(envelope.type)) return false
+
+    const type = envelope.type
+    const payload = parseMessage(
+      envelopePayloadSchemas[type],
+      envelope.payload,
+      `${type} payload from ${envelope.from.substring(0, 6)}`,
+    )
+    // The payload was just validated against this type's schema, which TypeScript can't correlate
+    const handler = this.handlers[type] as ((payload: unknown, envelope: Envelope, via: string) => void) | undefined
+    if (!payload || !handler) return false
+    handler(payload, envelope, via)
+    return true
+  }
+
+  /** Whether `dispatch` would accept the envelope, checked quietly for retransmissions of one already seen. */
+  accepts(envelope: Envelope) {
+    return (
+      envelope.v <= ENVELOPE_VERSION &&
+      isKnownType(envelope.type) &&
+      this.handlers[envelope.type] !== undefined &&
+      envelopePayloadSchemas[envelope.type].safeParse(envelope.payload).success
+    )
+  }
+}
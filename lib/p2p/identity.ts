@@ -0,0 +1,87 @@
+import type { Envelope } from "@/lib/protocol"
+
+// Every envelope is signed by its author with an ECDSA key pair generated for the room session.
+// The signaling server records the public key when the peer joins and hands it to the rest of the
+// room, so a peer relaying an envelope can neither change it nor pass off its own as someone else's.
+// The server is trusted to hand out the right keys.
+
+const KEY_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const
+const SIGNATURE_ALGORITHM = { name: "ECDSA", hash: "SHA-256" } as const
+
+export type UnsignedEnvelope = Omit<Envelope, "sig">
+
+// Everything but the routing fields, which relays and retransmissions change on the way
+function signedBytes({ v, type, id, from, clock, payload }: UnsignedEnvelope) {
+  return new TextEncoder().encode(JSON.stringify([v, type, id, from, clock, payload]))
+}
+
+const toBase64 = (bytes: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(bytes)))
+const fromBase64 = (encoded: string) => Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0))
+
+function subtle() {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error("Signing messages needs WebCrypto, which browsers only provide over HTTPS or on localhost")
+  }
+  return globalThis.crypto.subtle
+}
+
+/** Our own key pair. The private half never leaves this object. */
+export class EnvelopeSigner {
+  private constructor(
+    private readonly privateKey: CryptoKey,
+    // Base64 SPKI, as sent to the signaling server
+    readonly publicKey: string,
+  ) {}
+
+  static async generate() {
+    const { privateKey, publicKey } = await subtle().generateKey(KEY_ALGORITHM, false, ["sign", "verify"])
+    return new EnvelopeSigner(privateKey, toBase64(await subtle().exportKey("spki", publicKey)))
+  }
+
+  async sign(envelope: UnsignedEnvelope): Promise<Envelope> {
+    const signature = await subtle().sign(SIGNATURE_ALGORITHM, this.privateKey, signedBytes(envelope))
+    return { ...envelope, sig: toBase64(signature) }
+  }
+}
+
+interface PeerKey {
+  encoded: string
+  // Null when the key couldn't be imported, which fails every signature check
+  key: Promise<CryptoKey | null>
+}
+
+/** The public keys of the other peers in the room, as handed out by the signaling server. */
+export class PeerKeys {
+  private keys = new Map<string, PeerKey>()
+
+  set(peerId: string, encoded: string) {
+    if (this.keys.get(peerId)?.encoded === encoded) return
+    const key = Promise.resolve()
+      .then(() => subtle().importKey("spki", fromBase64(encoded), KEY_ALGORITHM, false, ["verify"]))
+      .catch((error) => {
+        console.warn(`Ignored an unusable public key for ${peerId.substring(0, 6)}:`, error)
+        return null
+      })
+    this.keys.set(peerId, { encoded, key })
+  }
+
+  delete(peerId: string) {
+    this.keys.delete(peerId)
+  }
+
+  clear() {
+    this.keys.clear()
+  }
+
+  /** Whether the envelope was signed by the peer it names as its author. False for unknown authors. */
+  async verify(envelope: Envelope) {
+    const key = await this.keys.get(envelope.from)?.key
+    if (!key) return false
+    try {
+      return await subtle().verify(SIGNATURE_ALGORITHM, key, fromBase64(envelope.sig), signedBytes(envelope))
+    } catch {
+      // Malformed base64 or a signature of the wrong length
+      return false
+    }
+  }
+}
@@ -0,0 +1,38 @@
+export {
+  DEFAULT_DELIVERY_POLICY,
+  DeliveryTracker,
+  type DeliveryPolicy,
+  type DeliveryState,
+  type DeliveryStatus,
+} from "./delivery"
+export { TypedEmitter } from "./emitter"
+export { EnvelopeDispatcher, type EnvelopeHandler } from "./envelope"
+export { EnvelopeSigner, PeerKeys, type UnsignedEnvelope } from "./identity"
+export { MeshRouter, type MeshTransport, type ReceiveResult } from "./mesh"
+export { ReactionTracker, type ReactionSummary } from "./reactions"
+export { RevisionTracker, type Revision } from "./revisions"
+export { TypingTracker } from "./typing"
+export {
+  HttpSignalingTransport,
+  type HttpSignalingTransportOptions,
+  type JoinedRoom,
+  type JoinOptions,
+  type JoinOutcome,
+  type OutgoingSignal,
+  type SignalingTransport,
+  type SignalingTransportEvents,
+} from "./signaling"
+export {
+  DEFAULT_RECONNECT_POLICY,
+  generatePeerId,
+  P2PRoom,
+  type ChatEvent,
+  type P2PRoomEvents,
+  type P2PRoomOptions,
+  type PeerInfo,
+  type ReactionEvent,
+  type ReadEvent,
+  type ReconnectPolicy,
+  type RoomJoinOptions,
+  type TypingEvent,
+} from "./room"
@@ -0,0 +1,91 @@
+import { MAX_RELAY_HOPS, type Envelope } from "@/lib/protocol"
+
+// Enough to recognise any envelope still bouncing around a room of MAX_PEERS_LIMIT peers
+const MAX_SEEN_FRAMES = 1000
+
+export interface MeshTransport {
+  /** Peers with an open data channel right now. */
+  neighbors(): string[]
+  send(peerId: string, envelope: Envelope): void
+}
+
+// "new" the first time an envelope id reaches us, "duplicate" for a retransmission of one we
+// already have, null for a copy of a transmission we've already seen over another path
+export type ReceiveResult = "new" | "duplicate" | null
+
+// Retransmissions reuse the envelope id, so relays tell transmissions apart by target and attempt
+function transmissionKey({ id, to, attempt }: Envelope) {
+  return `${id}>${to ?? "*"}#${attempt ?? 0}`
+}
+
+/** Insertion-ordered set that forgets its oldest entries beyond a fixed size. */
+class RecentSet {
+  private entries = new Set<string>()
+
+  constructor(private readonly limit: number) {}
+
+  has(key: string) {
+    return this.entries.has(key)
+  }
+
+  add(key: string) {
+    this.entries.add(key)
+    if (this.entries.size > this.limit) {
+      this.entries.delete(this.entries.values().next().value!)
+    }
+  }
+}
+
+/**
+ * Floods envelopes across the mesh without relying on every pair of peers being connected.
+ * Each envelope lists the peers it has been sent to; a receiver forwards it only to its own
+ * neighbours missing from that list, so relaying only happens where a direct link is absent.
+ * Envelopes addressed `to` one peer go straight to it when it's a neighbour.
+ */
+export class MeshRouter {
+  private transmissions = new RecentSet(MAX_SEEN_FRAMES)
+  private received = new RecentSet(MAX_SEEN_FRAMES)
+
+  constructor(
+    private readonly selfId: string,
+    private readonly transport: MeshTransport,
+  ) {}
+
+  /** Sends one of our own envelopes to every neighbour and returns how many it went to directly. */
+  broadcast(envelope: Envelope) {
+    this.transmissions.add(transmissionKey(envelope))
+    return this.forward({ ...envelope, hops: 0, delivered: [this.selfId] })
+  }
+
+  /** Relays an envelope received from `from` unless it's addressed to us, and reports whether it's new. */
+  receive(from: string, envelope: Envelope): ReceiveResult {
+    const key = transmissionKey(envelope)
+    if (envelope.from === this.selfId || this.transmissions.has(key)) return null
+    this.transmissions.add(key)
+
+    if (envelope.to !== this.selfId && envelope.hops < MAX_RELAY_HOPS) {
+      this.forward({ ...envelope, hops: envelope.hops + 1, delivered: [...envelope.delivered, from] })
+    }
+
+    if (this.received.has(envelope.id)) return "duplicate"
+    this.received.add(envelope.id)
+    return "new"
+  }
+
+  private forward(envelope: Envelope) {
+    const neighbors = this.transport.neighbors()
+    const targets =
+      envelope.to && neighbors.includes(envelope.to)
+        ? [envelope.to]
+        : neighbors.filter((peerId) => peerId !== envelope.from)
+    const pending = targets.filter((peerId) => !envelope.delivered.includes(peerId))
+    if (pending.length === 0) return 0
+
+    const outgoing = {
+      ...envelope,
+      delivered: Array.from(new Set([...envelope.delivered, this.selfId, ...pending])),
+    }
+    pending.forEach((peerId) => this.transport.send(peerId, outgoing))
+    return pending.length
+  }
+}
@@ -0,0 +1,76 @@
+import { MAX_SYNCED_REACTIONS, type Reaction } from "@/lib/protocol"
+
+// Bounds memory if a peer floods reactions; well beyond what a room's chat will produce
+const MAX_TRACKED_REACTIONS = 10000
+
+export interface ReactionSummary {
+  emoji: string
+  // Everyone currently reacting with this emoji, in the order they reacted
+  reactors: { peerId: string; name: string }[]
+}
+
+function reactionKey({ target, peerId, emoji }: Pick<Reaction, "target" | "peerId" | "emoji">) {
+  return `${target}|${peerId}|${emoji}`
+}
+
+/**
+ * Merges reactions from every peer. Each peer's reaction with a given emoji is a single entry
+ * that the newest clock overwrites, so applying the same reaction twice, or in any order, ends
+ * in the same state. Withdrawn reactions are kept so they win over older copies during a sync.
+ */
+export class ReactionTracker {
+  private reactions = new Map<string, Reaction>()
+
+  /** Returns whether the reaction changed anything. */
+  apply(reaction: Reaction) {
+    const key = reactionKey(reaction)
+    const current = this.reactions.get(key)
+    if (current && current.clock >= reaction.clock) return false
+    if (!current && this.reactions.size >= MAX_TRACKED_REACTIONS) {
+      console.warn(`Dropped reaction to ${reaction.target} from ${reaction.peerId}: too many reactions`)
+      return false
+    }
+
+    this.reactions.set(key, reaction)
+    // A withdrawal of a reaction we never saw doesn't change what anyone sees
+    return current ? current.active !== reaction.active : reaction.active
+  }
+
+  isActive(target: string, peerId: string, emoji: string) {
+    return this.reactions.get(reactionKey({ target, peerId, emoji }))?.active ?? false
+  }
+
+  has(target: string) {
+    return this.summarize(target).length > 0
+  }
+
+  /** Active reactions to a message, grouped by emoji in the order each emoji was first used. */
+  summarize(target: string): ReactionSummary[] {
+    const byEmoji = new Map<string, Reaction[]>()
+    this.reactions.forEach((reaction) => {
+      if (reaction.target !== target || !reaction.active) return
+      byEmoji.set(reaction.emoji, [...(byEmoji.get(reaction.emoji) ?? []), reaction])
+    })
+
+    return Array.from(byEmoji, ([emoji, reactions]) => ({
+      emoji,
+      reactions: reactions.sort((a, b) => a.clock - b.clock),
+    }))
+      .sort((a, b) => a.reactions[0].clock - b.reactions[0].clock)
+      .map(({ emoji, reactions }) => ({
+        emoji,
+        reactors: reactions.map(({ peerId, name }) => ({ peerId, name })),
+      }))
+  }
+
+  /** The most recent entries, for bringing a newly connected peer up to date. */
+  snapshot() {
+    return Array.from(this.reactions.values())
+      .sort((a, b) => b.clock - a.clock)
+      .slice(0, MAX_SYNCED_REACTIONS)
+  }
+
+  clear() {
+    this.reactions.clear()
+  }
+}
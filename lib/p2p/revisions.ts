@@ -0,0 +1,76 @@
+// Revisions that arrive before the message they target wait this many per message at most
+const MAX_PENDING_REVISIONS = 20
+
+export type Revision = { type: "edit"; id: string; content: string } | { type: "delete"; id: string }
+
+interface MessageState {
+  author: string
+  // Clock of the latest edit applied, so an older edit arriving late can't overwrite a newer one
+  clock: number
+  deleted: boolean
+}
+
+interface PendingRevision {
+  author: string
+  clock: number
+  revision: Revision
+}
+
+/**
+ * Decides which edits and deletes to apply: only those from the message's author, only edits
+ * newer than the last one applied, and nothing after a delete. Revisions can overtake the
+ * message they target over the mesh, so those wait until it arrives.
+ */
+export class RevisionTracker {
+  private messages = new Map<string, MessageState>()
+  private pending = new Map<string, PendingRevision[]>()
+
+  /** Records a chat message and returns any revisions that were waiting for it, ready to apply. */
+  register(id: string, author: string) {
+    this.messages.set(id, { author, clock: 0, deleted: false })
+
+    const waiting = this.pending.get(id) ?? []
+    this.pending.delete(id)
+    return waiting
+      .sort((a, b) => a.clock - b.clock)
+      .filter(({ author, clock, revision }) => this.apply(author, clock, revision))
+      .map(({ revision }) => revision)
+  }
+
+  isAuthor(id: string, peerId: string) {
+    const message = this.messages.get(id)
+    return message?.author === peerId && !message.deleted
+  }
+
+  /** Returns whether the revision should be applied now. */
+  apply(author: string, clock: number, revision: Revision) {
+    const message = this.messages.get(revision.id)
+    if (!message) {
+      const waiting = this.pending.get(revision.id) ?? []
+      if (waiting.length < MAX_PENDING_REVISIONS) {
+        this.pending.set(revision.id, [...waiting, { author, clock, revision }])
+      }
+      return false
+    }
+
+    // `author` is either us or the sender of an envelope whose signature has already been checked
+    if (message.author !== author) {
+      console.warn(`Rejected ${revision.type} of ${revision.id} from ${author}, who didn't write it`)
+      return false
+    }
+    if (message.deleted) return false
+
+    if (revision.type === "delete") {
+      message.deleted = true
+      return true
+    }
+    if (clock <= message.clock) return false
+    message.clock = clock
+    return true
+  }
+
+  clear() {
+    this.messages.clear()
+    this.pending.clear()
+  }
+}
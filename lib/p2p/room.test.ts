@@ -0,0 +1,193 @@
+import assert from "node:assert/strict"
+import { afterEach, describe, it } from "node:test"
+import { ENVELOPE_VERSION } from "@/lib/protocol"
+import { EnvelopeSigner } from "./identity"
+import type { Revision } from "./revisions"
+import { P2PRoom, type ChatEvent } from "./room"
+import { LoopbackNetwork, MemorySignalingServer } from "./testing"
+
+const FAST_RECONNECT = { maxAttempts: 5, disconnectGrace: 20, baseDelay: 20, maxDelay: 100 }
+
+interface Harness {
+  network: LoopbackNetwork
+  server: MemorySignalingServer
+  rooms: P2PRoom[]
+}
+
+let harness: Harness
+
+function setup() {
+  harness = { network: new LoopbackNetwork({ failTimeout: 50 }), server: new MemorySignalingServer(), rooms: [] }
+  return harness
+}
+
+function createPeer(peerId: string) {
+  const room = new P2PRoom({
+    transport: harness.server.createTransport(peerId),
+    createPeerConnection: harness.network.peerConnectionFactory(peerId),
+    reconnectPolicy: FAST_RECONNECT,
+  })
+  harness.rooms.push(room)
+  return room
+}
+
+async function joinAll(peerIds: string[]) {
+  const rooms = []
+  for (const peerId of peerIds) {
+    const room = createPeer(peerId)
+    await room.join("room", { username: peerId.toUpperCase(), iceServers: [] })
+    await harness.network.settle()
+    rooms.push(room)
+  }
+  return rooms
+}
+
+async function waitFor(condition: () => boolean, what: string, timeout = 2000) {
+  const deadline = Date.now() + timeout
+  while (!condition()) {
+    if (Date.now() > deadline) assert.fail(`Timed out waiting for ${what}`)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+const connectedTo = (room: P2PRoom) =>
+  room
+    .getPeers()
+    .filter((peer) => peer.connected && peer.dataChannel?.readyState === "open")
+    .map((peer) => peer.id)
+    .sort()
+
+function collectMessages(room: P2PRoom) {
+  const messages: ChatEvent[] = []
+  room.on("message", (message) => messages.push(message))
+  return messages
+}
+
+describe("P2PRoom over loopback connections", () => {
+  afterEach(async () => {
+    await Promise.all(harness.rooms.map((room) => room.dispose()))
+  })
+
+  it("connects every peer that joins into a full mesh", async () => {
+    setup()
+    const [a, b, c] = await joinAll(["a", "b", "c"])
+    await waitFor(() => [a, b, c].every((room) => connectedTo(room).length === 2), "a full mesh")
+
+    const atB = collectMessages(b)
+    const atC = collectMessages(c)
+    a.sendChat("hello")
+    await waitFor(() => atB.length === 1 && atC.length === 1, "the message to arrive")
+    assert.equal(atB[0].content, "hello")
+    assert.equal(atC[0].via, undefined)
+  })
+
+  it("recovers when both ends renegotiate at once", async () => {
+    setup()
+    const [a, b] = await joinAll(["a", "b"])
+    await waitFor(() => connectedTo(a).length === 1 && connectedTo(b).length === 1, "a and b to connect")
+
+    // Both sides offer at the same moment; perfect negotiation has to settle the glare
+    a.getPeers()[0].connection.restartIce()
+    b.getPeers()[0].connection.restartIce()
+    await harness.network.settle()
+
+    const atA = collectMessages(a)
+    b.sendChat("still here")
+    await waitFor(() => atA.length === 1, "the message after renegotiating")
+    assert.deepEqual(connectedTo(a), ["b"])
+    assert.equal(a.getPeers()[0].connection.signalingState, "stable")
+    assert.equal(b.getPeers()[0].connection.signalingState, "stable")
+  })
+
+  it("keeps a dropped peer listed while reconnecting and restores the link", async () => {
+    setup()
+    const [a, b] = await joinAll(["a", "b"])
+    await waitFor(() => connectedTo(a).length === 1, "a and b to connect")
+
+    harness.network.setLink("a", "b", "down")
+    await waitFor(() => a.getPeers()[0]?.status === "reconnecting", "a to notice the drop")
+
+    harness.network.setLink("a", "b", "up")
+    await waitFor(() => a.getPeers()[0]?.status === "connected", "a to reconnect")
+
+    const atB = collectMessages(b)
+    a.sendChat("back")
+    await waitFor(() => atB.length === 1, "the message after reconnecting")
+  })
+
+  it("relays messages between peers that can't reach each other", async () => {
+    setup()
+    harness.network.setLink("b", "c", "down")
+    const [a, b, c] = await joinAll(["a", "b", "c"])
+    await waitFor(() => connectedTo(a).length === 2, "a to connect to b and c")
+
+    const atC = collectMessages(c)
+    const delivery = new Promise((resolve) =>
+      b.on("delivery", (status) => status.state !== "sending" && resolve(status)),
+    )
+    b.sendChat("via a")
+    await waitFor(() => atC.length === 1, "the relayed message")
+    assert.equal(atC[0].content, "via a")
+    assert.equal(atC[0].via, "a")
+    assert.deepEqual(await delivery, { id: atC[0].id, state: "delivered", deliveredTo: ["a", "c"], total: 2 })
+  })
+
+  it("keeps counting a peer's acks after giving up on the direct link to it", async () => {
+    setup()
+    const [a, b, c] = await joinAll(["a", "b", "c"])
+    await waitFor(() => [a, b, c].every((room) => connectedTo(room).length === 2), "a full mesh")
+
+    harness.network.setLink("b", "c", "down")
+    await waitFor(() => !b.getPeers().some((peer) => peer.id === "c"), "b to give up reconnecting to c")
+
+    const atC = collectMessages(c)
+    const delivery = new Promise((resolve) =>
+      b.on("delivery", (status) => status.state !== "sending" && resolve(status)),
+    )
+    b.sendChat("via a")
+    await waitFor(() => atC.length === 1, "the relayed message")
+    assert.equal(atC[0].via, "a")
+    assert.deepEqual(await delivery, { id: atC[0].id, state: "delivered", deliveredTo: ["a", "c"], total: 2 })
+  })
+
+  it("won't let a neighbour edit or delete someone else's message", async () => {
+    setup()
+    const [a, b, c] = await joinAll(["a", "b", "c"])
+    await waitFor(() => [a, b, c].every((room) => connectedTo(room).length === 2), "a full mesh")
+
+    const atA = collectMessages(a)
+    const { id } = c.sendChat("original")
+    await waitFor(() => atA.length === 1, "c's message")
+    const revisions: Revision[] = []
+    a.on("revision", (revision) => revisions.push(revision))
+
+    // b claims to be c, both as c's direct neighbour and as a relay of c's, but can only sign with a key of its own
+    const forger = await EnvelopeSigner.generate()
+    const toA = b.getPeers().find((peer) => peer.id === "a")!.dataChannel!
+    for (const hops of [0, 1]) {
+      const payloads = { edit: { target: id, content: `forged hops=${hops}` }, delete: { target: id } }
+      for (const [type, payload] of Object.entries(payloads)) {
+        const forged = await forger.sign({
+          v: ENVELOPE_VERSION,
+          type,
+          id: `c-forged-${type}-${hops}`,
+          from: "c",
+          clock: 100,
+          hops,
+          delivered: hops > 0 ? ["c", "b"] : [],
+          payload,
+        })
+        toA.send(JSON.stringify(forged))
+      }
+    }
+
+    // a handles b's frames in order, so the forgeries have been dealt with once this arrives
+    b.sendChat("after the forgeries")
+    await waitFor(() => atA.length === 2, "b's message")
+    assert.deepEqual(revisions, [])
+
+    c.editMessage(id, "genuine")
+    await waitFor(() => revisions.length === 1, "c's own edit")
+    assert.deepEqual(revisions, [{ type: "edit", id, content: "genuine" }])
+  })
+})
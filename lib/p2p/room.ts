@@ -0,0 +1,887 @@
+import { DEFAULT_ICE_SERVERS } from "@/lib/ice-servers"
+import {
+  ENVELOPE_VERSION,
+  envelopeSchema,
+  parseJsonMessage,
+  typingSignalSchema,
+  type EnvelopePayload,
+  type EnvelopeType,
+  type IceServer,
+  type Reaction,
+  type ReplyReference,
+  type SignalingAnswer,
+  type SignalingCandidate,
+  type SignalingMessage,
+  type SignalingOffer,
+  type SignalingPeerLeft,
+} from "@/lib/protocol"
+import { DEFAULT_DELIVERY_POLICY, DeliveryTracker, type DeliveryPolicy, type DeliveryStatus } from "./delivery"
+import { TypedEmitter } from "./emitter"
+import { EnvelopeDispatcher } from "./envelope"
+import { EnvelopeSigner, PeerKeys, type UnsignedEnvelope } from "./identity"
+import { MeshRouter } from "./mesh"
+import { ReactionTracker, type ReactionSummary } from "./reactions"
+import { RevisionTracker, type Revision } from "./revisions"
+import { TypingTracker } from "./typing"
+import {
+  HttpSignalingTransport,
+  type JoinedRoom,
+  type JoinOptions,
+  type JoinOutcome,
+  type SignalingTransport,
+} from "./signaling"
+
+const MAX_PENDING_CANDIDATES = 100
+// Envelope types whose recipients ack them, so the sender can report delivery and retransmit
+const ACKNOWLEDGED_TYPES = new Set<string>(["chat", "edit", "delete", "react"])
+
+export interface ReconnectPolicy {
+  maxAttempts: number
+  // How long a "disconnected" link gets to recover on its own before the first restart
+  disconnectGrace: number
+  baseDelay: number
+  maxDelay: number
+}
+
+// ICE restart policy for dropped peer connections. "disconnected" is often transient, so it
+// gets a grace period before the first restart; "failed" restarts straight away.
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  disconnectGrace: 5000,
+  baseDelay: 1000,
+  maxDelay: 15000,
+}
+
+export interface PeerInfo {
+  id: string
+  username: string
+  connection: RTCPeerConnection
+  dataChannel?: RTCDataChannel
+  connected: boolean
+  // "reconnecting" keeps the peer listed while ICE restarts are attempted
+  status: "connecting" | "connected" | "reconnecting"
+  reconnectAttempt?: number
+}
+
+export interface ChatEvent {
+  // Envelope id, unique across the room
+  id: string
+  // The peer that wrote the message, which isn't necessarily one we're connected to
+  peerId: string
+  // Lamport timestamp, for ordering messages consistently on every peer
+  clock: number
+  sender: string
+  content: string
+  // Set when the message is a reply
+  replyTo?: ReplyReference
+  // Set when the message was relayed to us, to the neighbour it arrived from
+  via?: string
+}
+
+export interface ReadEvent {
+  peerId: string
+  // Display name of the reader
+  name: string
+  upTo: string
+  clock: number
+}
+
+export interface ReactionEvent {
+  // The message reacted to
+  id: string
+  reactions: ReactionSummary[]
+}
+
+export interface TypingEvent {
+  peerId: string
+  name: string
+  typing: boolean
+}
+
+export interface P2PRoomEvents extends Record<string, unknown> {
+  // Snapshot of every known peer, emitted whenever any of them changes
+  peers: PeerInfo[]
+  message: ChatEvent
+  // Delivery progress of one of our own chat messages
+  delivery: DeliveryStatus
+  // A message was edited or deleted by its author, including by us
+  revision: Revision
+  // The reactions to a message changed; carries all of them, not just the change
+  reaction: ReactionEvent
+  // Another peer's read position moved forward
+  read: ReadEvent
+  // A directly connected peer started or stopped typing
+  typing: TypingEvent
+  // Human-readable progress and diagnostics, e.g. "✅ Joined global room"
+  system: string
+  // True while connections to newly discovered peers are being established
+  connecting: boolean
+  // The signaling server dropped us and we couldn't get back in; the room has been left
+  disconnected: string
+}
+
+export interface P2PRoomOptions {
+  peerId?: string
+  // Defaults to the HTTP transport against this origin's /api/signaling
+  transport?: SignalingTransport
+  // Lets callers supply a non-browser WebRTC implementation
+  createPeerConnection?: (config: RTCConfiguration) => RTCPeerConnection
+  reconnectPolicy?: ReconnectPolicy
+  deliveryPolicy?: DeliveryPolicy
+  // How long to wait for a new connection before reporting it as timed out
+  connectionTimeout?: number
+}
+
+export interface RoomJoinOptions extends JoinOptions {
+  username: string
+  // Used instead of the server's ICE servers, e.g. from the local override
+  iceServers?: IceServer[]
+}
+
+interface PeerSession {
+  pc: RTCPeerConnection
+  chatChannel?: RTCDataChannel
+  typingChannel?: RTCDataChannel
+  polite: boolean
+  makingOffer: boolean
+  ignoreOffer: boolean
+  isSettingRemoteAnswerPending: boolean
+  reconnectAttempts: number
+  reconnectTimer?: ReturnType<typeof setTimeout>
+  connectTimer?: ReturnType<typeof setTimeout>
+}
+
+export function generatePeerId() {
+  return Math.random().toString(36).substring(2, 15)
+}
+
+/**
+ * A full-mesh chat room: one RTCPeerConnection per remote peer, negotiated through a
+ * SignalingTransport with perfect negotiation, ICE restarts and candidate buffering.
+ */
+export class P2PRoom extends TypedEmitter<P2PRoomEvents> {
+  readonly peerId: string
+  readonly reconnectPolicy: ReconnectPolicy
+  private readonly transport: SignalingTransport
+  private readonly createPeerConnection: (config: RTCConfiguration) => RTCPeerConnection
+  private readonly connectionTimeout: number
+
+  private username = ""
+  private joined = false
+  private peers = new Map<string, PeerInfo>()
+  // Everyone signaling says is in the room, including peers we have no working link to. Delivery
+  // waits on all of them, since the mesh can still relay to a peer we gave up connecting to.
+  private members = new Set<string>()
+  // Created on the first join and kept for the life of the room, so rejoining keeps our identity
+  private signer: EnvelopeSigner | null = null
+  private peerKeys = new PeerKeys()
+  // Signing is asynchronous, so outgoing envelopes queue here to go out in the order they were made
+  private outgoing: Promise<void> = Promise.resolve()
+  // Live negotiation state per remote peer
+  private sessions = new Map<string, PeerSession>()
+  // Remote ICE candidates waiting for their peer's remote description, in arrival order
+  private pendingCandidates = new Map<string, RTCIceCandidateInit[]>()
+  private unsubscribeTransport: () => void
+  private router: MeshRouter
+  private dispatcher = new EnvelopeDispatcher()
+  private deliveries: DeliveryTracker
+  private typing: TypingTracker
+  private revisions = new RevisionTracker()
+  private reactions = new ReactionTracker()
+  // Lamport clock stamped on every envelope we send
+  private clock = 0
+  // Clock of the latest message we've announced as read
+  private readClock = 0
+  private nextEnvelopeSeq = 0
+
+  // Replaced after joining with the server's ICE servers (or the caller's override)
+  private rtcConfig: RTCConfiguration = {
+    iceServers: DEFAULT_ICE_SERVERS,
+    iceCandidatePoolSize: 10,
+  }
+  private iceOverride?: IceServer[]
+  private iceRefreshTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(options: P2PRoomOptions = {}) {
+    super()
+    this.peerId = options.transport?.peerId ?? options.peerId ?? generatePeerId()
+    this.transport = options.transport ?? new HttpSignalingTransport({ peerId: this.peerId })
+    this.createPeerConnection = options.createPeerConnection ?? ((config) => new RTCPeerConnection(config))
+    this.reconnectPolicy = options.reconnectPolicy ?? DEFAULT_RECONNECT_POLICY
+    this.connectionTimeout = options.connectionTimeout ?? 30000
+    const transportUnsubscribers = [
+      this.transport.on("notice", (notice) => this.emit("system", notice)),
+      this.transport.on("rejoined", (room) => this.handleRejoined(room)),
+      this.transport.on("evicted", (reason) => this.handleEvicted(reason)),
+    ]
+    this.unsubscribeTransport = () => transportUnsubscribers.forEach((unsubscribe) => unsubscribe())
+    this.router = new MeshRouter(this.peerId, {
+      neighbors: () => this.neighbors(),
+      send: (peerId, envelope) => this.peers.get(peerId)?.dataChannel?.send(JSON.stringify(envelope)),
+    })
+
+    this.deliveries = new DeliveryTracker(
+      options.deliveryPolicy ?? DEFAULT_DELIVERY_POLICY,
+      (envelope, peerId, attempt) => this.router.broadcast({ ...envelope, to: peerId, attempt }),
+      (status) => this.emit("delivery", status),
+    )
+
+    this.typing = new TypingTracker(
+      (signal) => {
+        const frame = JSON.stringify(signal)
+        this.sessions.forEach((session) => {
+          if (session.typingChannel?.readyState === "open") session.typingChannel.send(frame)
+        })
+      },
+      (peerId, name, typing) => this.emit("typing", { peerId, name, typing }),
+    )
+
+    this.dispatcher.on("ack", ({ id }, envelope) => this.deliveries.acknowledge(id, envelope.from))
+    this.dispatcher.on("read", (payload, envelope) => this.emit("read", { peerId: envelope.from, ...payload }))
+    this.dispatcher.on("chat", (payload, envelope, via) => {
+      this.emit("message", {
+        id: envelope.id,
+        peerId: envelope.from,
+        clock: envelope.clock,
+        ...payload,
+        via: envelope.from === via ? undefined : via,
+      })
+      this.revisions.register(envelope.id, envelope.from).forEach((revision) => this.emit("revision", revision))
+      // Reactions synced from another peer can arrive before the message itself
+      if (this.reactions.has(envelope.id)) this.emitReactions(envelope.id)
+    })
+    // Only a message's author may revise it. `from` can be taken at its word here, since nothing is
+    // dispatched before its signature has been checked against the key `from` joined with.
+    this.dispatcher.on("edit", ({ target, content }, envelope) =>
+      this.applyRevision(envelope.from, envelope.clock, { type: "edit", id: target, content }),
+    )
+    this.dispatcher.on("delete", ({ target }, envelope) =>
+      this.applyRevision(envelope.from, envelope.clock, { type: "delete", id: target }),
+    )
+    this.dispatcher.on("react", (payload, envelope) =>
+      this.applyReactions([{ ...payload, peerId: envelope.from, clock: envelope.clock }]),
+    )
+    // Synced entries can't be checked against their reactor the way a "react" can, so a peer
+    // could forge them; reactions are low-stakes enough to accept that
+    this.dispatcher.on("reactions", ({ entries }) => this.applyReactions(entries))
+  }
+
+  get isJoined() {
+    return this.joined
+  }
+
+  getPeers() {
+    return Array.from(this.peers.values())
+  }
+
+  async join(roomId: string, { username, iceServers, ...options }: RoomJoinOptions): Promise<JoinOutcome> {
+    this.username = username
+    this.iceOverride = iceServers
+    this.emit("connecting", true)
+    this.emit("system", `🔄 Joining room ${roomId}...`)
+
+    this.signer ??= await EnvelopeSigner.generate()
+    const outcome = await this.transport.join(roomId, this.signer.publicKey, options)
+    if (!outcome.success) {
+      this.emit("connecting", false)
+      return outcome
+    }
+
+    this.joined = true
+    this.setMembers(outcome)
+    this.emit("system", `✅ Joined global room: ${roomId}`)
+    this.emit("system", "🌍 Ready for worldwide P2P connections!")
+
+    // Start listening for signaling messages
+    this.transport.start((message) => this.handleSignal(message))
+    await this.loadIceServers()
+
+    // Connect to existing peers
+    if (outcome.peers.length > 0) {
+      this.emit("system", `👥 Found ${outcome.peers.length} peer(s) in room. Connecting...`)
+      for (const peerId of outcome.peers) {
+        this.getOrCreateSession(peerId, true)
+      }
+    } else {
+      this.emit("system", "👤 You're the first one in this room. Waiting for others...")
+      this.emit("connecting", false)
+    }
+    return outcome
+  }
+
+  /** `beacon` is for page unloads, where only navigator.sendBeacon is guaranteed to go out. */
+  async leave({ beacon = false }: { beacon?: boolean } = {}) {
+    if (!this.joined) return
+    this.joined = false
+
+    if (this.iceRefreshTimer) {
+      clearTimeout(this.iceRefreshTimer)
+      this.iceRefreshTimer = null
+    }
+    for (const peerId of Array.from(this.sessions.keys())) {
+      this.removePeer(peerId)
+    }
+    this.pendingCandidates.clear()
+    this.members.clear()
+    this.peerKeys.clear()
+    this.deliveries.clear()
+    this.typing.clear()
+    this.revisions.clear()
+    this.reactions.clear()
+    this.readClock = 0
+    this.emit("connecting", false)
+    this.emit("system", "👋 Left the room")
+
+    await this.transport.leave({ beacon })
+  }
+
+  /**
+   * Sends a chat line to every open channel and reports how many peers it's going to directly.
+   * Peers without a direct link to us receive it through the mesh router; every peer in the
+   * room is expected to ack it, and "delivery" events follow its progress. Pass `replyTo` to send
+   * it as a reply.
+   */
+  sendChat(content: string, replyTo?: ReplyReference) {
+    // Counted up front, since the envelope only goes out once it has been signed
+    const recipients = this.neighbors().length
+    const envelope = this.broadcast("chat", { sender: this.username, content, replyTo }, { track: recipients > 0 })
+    if (recipients > 0) {
+      this.revisions.register(envelope.id, this.peerId)
+    }
+    return { id: envelope.id, clock: envelope.clock, recipients }
+  }
+
+  /** Replaces the text of one of our own messages everywhere. Returns false if it isn't ours to edit. */
+  editMessage(id: string, content: string) {
+    if (!this.revisions.isAuthor(id, this.peerId)) return false
+    const envelope = this.broadcast("edit", { target: id, content }, { track: true })
+    this.applyRevision(this.peerId, envelope.clock, { type: "edit", id, content })
+    return true
+  }
+
+  /** Deletes one of our own messages everywhere, leaving a tombstone. Returns false if it isn't ours. */
+  deleteMessage(id: string) {
+    if (!this.revisions.isAuthor(id, this.peerId)) return false
+    const envelope = this.broadcast("delete", { target: id }, { track: true })
+    this.applyRevision(this.peerId, envelope.clock, { type: "delete", id })
+    return true
+  }
+
+  /** Adds our reaction with this emoji to a message, or withdraws it if it's already there. */
+  toggleReaction(id: string, emoji: string) {
+    if (!this.joined) return
+    const active = !this.reactions.isActive(id, this.peerId, emoji)
+    const payload = { target: id, emoji, active, name: this.username }
+    const envelope = this.broadcast("react", payload, { track: true })
+    this.applyReactions([{ ...payload, peerId: this.peerId, clock: envelope.clock }])
+  }
+
+  /**
+   * Call on every keystroke in the draft. Typing signals only reach directly connected peers; they
+   * aren't worth relaying.
+   */
+  notifyTyping() {
+    if (this.joined) this.typing.keystroke(this.username)
+  }
+
+  /** Call when the draft is sent or cleared. */
+  stopTyping() {
+    this.typing.stop(this.username)
+  }
+
+  /** Tells the room we've read everything up to a message, unless we've already said as much. */
+  markRead(messageId: string, clock: number) {
+    if (!this.joined || clock <= this.readClock) return
+    this.readClock = clock
+    this.broadcast("read", { upTo: messageId, clock, name: this.username })
+  }
+
+  /** Leaves the room if needed and detaches from the transport. */
+  async dispose() {
+    await this.leave()
+    this.unsubscribeTransport()
+  }
+
+  // `to` addresses the envelope to a single peer; it's still relayed if that peer isn't a neighbour.
+  // `track` follows its delivery to every member of the room.
+  private broadcast<K extends EnvelopeType>(
+    type: K,
+    payload: EnvelopePayload<K>,
+    { to, track = false }: { to?: string; track?: boolean } = {},
+  ) {
+    const envelope: UnsignedEnvelope = {
+      v: ENVELOPE_VERSION,
+      type,
+      id: `${this.peerId}-${(this.nextEnvelopeSeq++).toString(36)}`,
+      from: this.peerId,
+      to,
+      clock: ++this.clock,
+      hops: 0,
+      delivered: [],
+      payload,
+    }
+
+    this.outgoing = this.outgoing.then(async () => {
+      const signer = this.signer
+      if (!signer || !this.joined) return
+      try {
+        const signed = await signer.sign(envelope)
+        // We may have left the room while it was being signed
+        if (!this.joined) return
+        this.router.broadcast(signed)
+        if (track) this.deliveries.track(signed, Array.from(this.members))
+      } catch (error) {
+        console.error(`Failed to send ${type}:`, error)
+      }
+    })
+    return envelope
+  }
+
+  // Peers with an open chat channel to us
+  private neighbors() {
+    return this.getPeers()
+      .filter((peer) => peer.dataChannel?.readyState === "open")
+      .map((peer) => peer.id)
+  }
+
+  private applyRevision(author: string, clock: number, revision: Revision) {
+    if (this.revisions.apply(author, clock, revision)) {
+      this.emit("revision", revision)
+    }
+  }
+
+  private applyReactions(reactions: Reaction[]) {
+    const changed = new Set(reactions.filter((reaction) => this.reactions.apply(reaction)).map(({ target }) => target))
+    changed.forEach((id) => this.emitReactions(id))
+  }
+
+  private emitReactions(id: string) {
+    this.emit("reaction", { id, reactions: this.reactions.summarize(id) })
+  }
+
+  private emitPeers() {
+    this.emit("peers", this.getPeers())
+  }
+
+  private updatePeer(peerId: string, patch: Partial<PeerInfo>) {
+    const peer = this.peers.get(peerId)
+    if (!peer) return
+    this.peers.set(peerId, { ...peer, ...patch })
+    this.emitPeers()
+  }
+
+  private removePeer(peerId: string) {
+    this.pendingCandidates.delete(peerId)
+    this.typing.forgetPeer(peerId)
+    const session = this.sessions.get(peerId)
+    if (session) {
+      clearTimeout(session.reconnectTimer)
+      clearTimeout(session.connectTimer)
+      session.pc.close()
+      this.sessions.delete(peerId)
+    }
+    if (this.peers.delete(peerId)) {
+      this.emitPeers()
+    }
+  }
+
+  private async handleSignal(message: SignalingMessage) {
+    if (message.type === "offer") {
+      await this.handleOffer(message)
+    } else if (message.type === "answer") {
+      await this.handleAnswer(message)
+    } else if (message.type === "ice-candidate") {
+      await this.handleIceCandidate(message)
+    } else if (message.type === "peer-left") {
+      this.handlePeerLeft(message)
+    }
+  }
+
+  // Both ends create the channels themselves with the same ids, so simultaneous offers
+  // can never leave a pair of peers with two competing channels
+  private ensureDataChannels(session: PeerSession, peerId: string) {
+    if (!session.chatChannel) {
+      session.chatChannel = session.pc.createDataChannel("chat", {
+        negotiated: true,
+        id: 0,
+        ordered: true,
+      })
+      this.setupDataChannel(session.chatChannel, peerId)
+    }
+    // Typing signals are only useful while fresh, so a lost or late one isn't worth retransmitting
+    if (!session.typingChannel) {
+      session.typingChannel = session.pc.createDataChannel("typing", {
+        negotiated: true,
+        id: 1,
+        ordered: false,
+        maxRetransmits: 0,
+      })
+      session.typingChannel.onmessage = (event) => {
+        const signal = parseJsonMessage(typingSignalSchema, event.data, `typing signal from ${peerId.substring(0, 6)}`)
+        if (signal) this.typing.receive(peerId, signal)
+      }
+    }
+  }
+
+  // One RTCPeerConnection per remote peer, whichever side speaks first. Offers are produced
+  // by onnegotiationneeded so renegotiation works the same as the first connection.
+  private getOrCreateSession(targetPeerId: string, isInitiator: boolean) {
+    const existing = this.sessions.get(targetPeerId)
+    if (existing) return existing
+
+    const pc = this.createPeerConnection(this.rtcConfig)
+    const session: PeerSession = {
+      pc,
+      // Both sides derive opposite roles from the ids, so exactly one of them backs down on glare
+      polite: this.peerId < targetPeerId,
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false,
+      reconnectAttempts: 0,
+    }
+    this.sessions.set(targetPeerId, session)
+    const shortId = targetPeerId.substring(0, 6)
+
+    pc.onnegotiationneeded = async () => {
+      try {
+        session.makingOffer = true
+        await pc.setLocalDescription()
+        if (pc.localDescription?.type === "offer") {
+          await this.transport.send({
+            type: "offer",
+            data: { to: targetPeerId, offer: pc.localDescription.toJSON() },
+          })
+        }
+      } catch (error) {
+        console.error(`Negotiation with ${targetPeerId} failed:`, error)
+      } finally {
+        session.makingOffer = false
+      }
+    }
+
+    pc.onicecandidate = async (event) => {
+      if (event.candidate) {
+        await this.transport.send({
+          type: "ice-candidate",
+          data: { to: targetPeerId, candidate: event.candidate.toJSON() },
+        })
+      }
+    }
+
+    pc.oniceconnectionstatechange = () => {
+      const state = pc.iceConnectionState
+      this.emit("system", `🔗 ICE connection with ${shortId}: ${state}`)
+
+      if (state === "connected" || state === "completed") {
+        this.emit("system", `✅ Successfully connected to peer ${shortId}!`)
+      } else if (state === "failed") {
+        this.emit("system", `❌ Connection failed with ${shortId}. Retrying...`)
+      }
+    }
+
+    pc.onconnectionstatechange = () => {
+      const state = pc.connectionState
+      this.emit("system", `📡 Connection state with ${shortId}: ${state}`)
+
+      if (state === "connected") {
+        clearTimeout(session.reconnectTimer)
+        clearTimeout(session.connectTimer)
+        session.reconnectTimer = undefined
+        if (session.reconnectAttempts > 0) {
+          this.emit("system", `🔁 Reconnected to ${shortId}`)
+        }
+        session.reconnectAttempts = 0
+        this.updatePeer(targetPeerId, {
+          connected: true,
+          status: "connected",
+          reconnectAttempt: undefined,
+        })
+        this.emit("connecting", false)
+      } else if (state === "disconnected") {
+        this.updatePeer(targetPeerId, {
+          connected: false,
+          status: "reconnecting",
+        })
+        this.scheduleReconnect(targetPeerId, session, this.reconnectPolicy.disconnectGrace)
+      } else if (state === "failed") {
+        this.updatePeer(targetPeerId, {
+          connected: false,
+          status: "reconnecting",
+        })
+        this.scheduleReconnect(targetPeerId, session)
+      }
+    }
+
+    session.connectTimer = setTimeout(() => {
+      if (pc.connectionState !== "connected") {
+        this.emit(
+          "system",
+          `⏰ Connection timeout with ${shortId}. The peer might be offline or behind a restrictive firewall.`,
+        )
+        this.emit("connecting", false)
+      }
+    }, this.connectionTimeout)
+
+    // The answering side adds the channel once the remote offer is applied, so it doesn't
+    // start a competing negotiation of its own
+    if (isInitiator) {
+      this.ensureDataChannels(session, targetPeerId)
+    }
+
+    this.peers.set(targetPeerId, {
+      id: targetPeerId,
+      username: `Peer-${shortId}`,
+      connection: pc,
+      connected: false,
+      status: "connecting",
+    })
+    this.emitPeers()
+    return session
+  }
+
+  // Restarts ICE with exponential backoff until the connection recovers or the policy's attempts
+  // run out. `delay` overrides the backoff, e.g. to give a "disconnected" link time to recover.
+  private scheduleReconnect(peerId: string, session: PeerSession, delay?: number) {
+    if (session.reconnectTimer) return
+    const policy = this.reconnectPolicy
+
+    if (session.reconnectAttempts >= policy.maxAttempts) {
+      this.emit("system", `❌ Giving up on ${peerId.substring(0, 6)} after ${policy.maxAttempts} reconnection attempts`)
+      this.removePeer(peerId)
+      this.emit("connecting", false)
+      return
+    }
+
+    const backoff = Math.min(policy.baseDelay * 2 ** session.reconnectAttempts, policy.maxDelay)
+    session.reconnectTimer = setTimeout(() => {
+      session.reconnectTimer = undefined
+      const state = session.pc.connectionState
+      if (state === "connected" || state === "closed" || this.sessions.get(peerId) !== session) return
+
+      session.reconnectAttempts++
+      this.updatePeer(peerId, {
+        status: "reconnecting",
+        reconnectAttempt: session.reconnectAttempts,
+      })
+      this.emit(
+        "system",
+        `🔄 Restarting ICE with ${peerId.substring(0, 6)} (attempt ${session.reconnectAttempts}/${policy.maxAttempts})`,
+      )
+      // Triggers onnegotiationneeded, which sends an ICE-restart offer through signaling
+      session.pc.restartIce()
+
+      // Check back later in case the restart doesn't take
+      this.scheduleReconnect(peerId, session)
+    }, delay ?? backoff)
+  }
+
+  // Perfect negotiation: the impolite peer ignores an offer that collides with its own,
+  // the polite peer rolls its own offer back and answers instead
+  private async handleRemoteDescription(from: string, description: RTCSessionDescriptionInit) {
+    const session = this.getOrCreateSession(from, false)
+    const { pc } = session
+
+    const readyForOffer =
+      !session.makingOffer && (pc.signalingState === "stable" || session.isSettingRemoteAnswerPending)
+    const offerCollision = description.type === "offer" && !readyForOffer
+
+    session.ignoreOffer = !session.polite && offerCollision
+    if (session.ignoreOffer) {
+      this.emit("system", `↔️ Ignoring colliding offer from ${from.substring(0, 6)}`)
+      return
+    }
+
+    if (offerCollision) {
+      await Promise.all([pc.setLocalDescription({ type: "rollback" }), pc.setRemoteDescription(description)])
+    } else {
+      session.isSettingRemoteAnswerPending = description.type === "answer"
+      try {
+        await pc.setRemoteDescription(description)
+      } finally {
+        session.isSettingRemoteAnswerPending = false
+      }
+    }
+    await this.flushPendingCandidates(from, session)
+
+    if (description.type === "offer") {
+      this.ensureDataChannels(session, from)
+      await pc.setLocalDescription()
+      await this.transport.send({
+        type: "answer",
+        data: { to: from, answer: pc.localDescription!.toJSON() },
+      })
+    }
+  }
+
+  private setupDataChannel(dataChannel: RTCDataChannel, peerId: string) {
+    dataChannel.onopen = () => {
+      this.emit("system", `💬 Chat ready with ${peerId.substring(0, 6)}`)
+      this.updatePeer(peerId, { dataChannel })
+
+      // Catch the peer up on reactions made while it wasn't connected to us
+      const entries = this.reactions.snapshot()
+      if (entries.length > 0) this.broadcast("reactions", { entries }, { to: peerId })
+    }
+
+    // Signatures are checked asynchronously, so frames queue here to be handled in arrival order
+    let inbound: Promise<void> = Promise.resolve()
+    dataChannel.onmessage = (event) => {
+      inbound = inbound.then(() => this.receiveFrame(peerId, event.data))
+    }
+
+    dataChannel.onerror = (error) => {
+      this.emit("system", `❌ Chat error with ${peerId.substring(0, 6)}: ${error}`)
+    }
+  }
+
+  private async receiveFrame(peerId: string, data: string) {
+    const envelope = parseJsonMessage(envelopeSchema, data, `envelope from ${peerId.substring(0, 6)}`)
+    if (!envelope) return
+    // A frame straight from its author arrives over the author's own channel
+    if (envelope.hops === 0 && envelope.from !== peerId) {
+      console.warn(
+        `Dropped a frame from ${peerId.substring(0, 6)} claiming to come from ${envelope.from.substring(0, 6)}`,
+      )
+      return
+    }
+    // Checked before relaying too, so a forgery goes no further than the peer that sent it. Envelopes
+    // from a peer whose key hasn't reached us yet are dropped unacked, and retransmitted later.
+    if (!(await this.peerKeys.verify(envelope))) {
+      console.warn(
+        `Dropped ${envelope.type} ${envelope.id} from ${peerId.substring(0, 6)}: bad or unverifiable signature`,
+      )
+      return
+    }
+    if (!this.joined) return
+
+    const result = this.router.receive(peerId, envelope)
+    if (!result || (envelope.to && envelope.to !== this.peerId)) return
+
+    let accepted: boolean
+    if (result === "new") {
+      this.clock = Math.max(this.clock, envelope.clock)
+      accepted = this.dispatcher.dispatch(envelope, peerId)
+    } else {
+      accepted = this.dispatcher.accepts(envelope)
+    }
+    // Retransmissions are acked again, since it was probably our first ack that got lost. Envelopes
+    // we couldn't handle never are, so the sender reports them as failed rather than delivered.
+    if (accepted && ACKNOWLEDGED_TYPES.has(envelope.type)) {
+      this.broadcast("ack", { id: envelope.id }, { to: envelope.from })
+    }
+  }
+
+  private async handleOffer({ from, offer, key }: SignalingOffer) {
+    this.emit("system", `📨 Received connection offer from ${from.substring(0, 6)}`)
+    this.emit("connecting", true)
+    // Newcomers make the offers, so this is how we learn that someone joined and what their key is
+    this.members.add(from)
+    this.peerKeys.set(from, key)
+    await this.handleRemoteDescription(from, offer)
+  }
+
+  private async handleAnswer({ from, answer }: SignalingAnswer) {
+    this.emit("system", `📨 Received connection answer from ${from.substring(0, 6)}`)
+    if (this.sessions.has(from)) {
+      await this.handleRemoteDescription(from, answer)
+    }
+  }
+
+  // The rest of the room dropped their connections to us when the server evicted us, so every
+  // connection starts over, with us as the newcomer that makes the offers
+  private handleRejoined({ peers, keys }: JoinedRoom) {
+    if (!this.joined) return
+    this.emit("system", "🔄 Rejoined the room")
+    for (const peerId of Array.from(this.sessions.keys())) {
+      this.removePeer(peerId)
+    }
+    this.members.forEach((peerId) => {
+      if (!peers.includes(peerId)) this.deliveries.forgetPeer(peerId)
+    })
+    this.setMembers({ peers, keys })
+    peers.forEach((peerId) => this.getOrCreateSession(peerId, true))
+  }
+
+  // Replaces what we know of the room with what the server told us when we joined
+  private setMembers({ peers, keys }: JoinedRoom) {
+    this.members = new Set(peers)
+    this.peerKeys.clear()
+    Object.entries(keys).forEach(([peerId, key]) => this.peerKeys.set(peerId, key))
+  }
+
+  private async handleEvicted(reason: string) {
+    if (!this.joined) return
+    this.emit("system", `❌ Lost the connection to the room: ${reason}`)
+    this.emit("disconnected", reason)
+    await this.leave()
+  }
+
+  private handlePeerLeft({ from }: SignalingPeerLeft) {
+    this.emit("system", `👋 Peer ${from.substring(0, 6)} left the room`)
+    this.removePeer(from)
+    this.members.delete(from)
+    this.peerKeys.delete(from)
+    this.deliveries.forgetPeer(from)
+  }
+
+  private async addRemoteCandidate(session: PeerSession, candidate: RTCIceCandidateInit) {
+    try {
+      await session.pc.addIceCandidate(candidate)
+    } catch (error) {
+      // Candidates for an offer we deliberately ignored are expected to fail
+      if (!session.ignoreOffer) throw error
+    }
+  }
+
+  // Candidates can't be applied before the remote description, and may even arrive before
+  // we have a connection for the peer at all, so they wait here until it's set
+  private async handleIceCandidate({ from, candidate }: SignalingCandidate) {
+    const session = this.sessions.get(from)
+    if (!session?.pc.remoteDescription) {
+      const pending = this.pendingCandidates.get(from) ?? []
+      pending.push(candidate)
+      if (pending.length > MAX_PENDING_CANDIDATES) pending.shift()
+      this.pendingCandidates.set(from, pending)
+      return
+    }
+    await this.addRemoteCandidate(session, candidate)
+  }
+
+  private async flushPendingCandidates(peerId: string, session: PeerSession) {
+    const pending = this.pendingCandidates.get(peerId)
+    if (!pending) return
+    this.pendingCandidates.delete(peerId)
+
+    for (const candidate of pending) {
+      try {
+        await this.addRemoteCandidate(session, candidate)
+      } catch (error) {
+        console.error(`Failed to apply buffered ICE candidate from ${peerId}:`, error)
+      }
+    }
+  }
+
+  // Loads ICE servers for new connections and pushes them to existing ones, so ICE restarts
+  // use fresh TURN credentials. Re-runs shortly before minted credentials expire.
+  private loadIceServers = async () => {
+    let iceServers = this.iceOverride ?? DEFAULT_ICE_SERVERS
+    let expiresAt: number | undefined
+
+    if (!this.iceOverride) {
+      const response = await this.transport.fetchIceServers()
+      if (response) {
+        iceServers = response.iceServers
+        expiresAt = response.expiresAt
+      }
+    }
+    if (!this.joined) return
+
+    this.rtcConfig = { ...this.rtcConfig, iceServers }
+    this.sessions.forEach((session) => session.pc.setConfiguration(this.rtcConfig))
+
+    if (this.iceRefreshTimer) clearTimeout(this.iceRefreshTimer)
+    this.iceRefreshTimer = expiresAt
+      ? setTimeout(this.loadIceServers, Math.max(expiresAt - Date.now() - 60000, 30000))
+      : null
+  }
+}
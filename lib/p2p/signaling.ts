@@ -0,0 +1,392 @@
+import {
+  heartbeatResponseSchema,
+  iceServersResponseSchema,
+  joinRoomResponseSchema,
+  parseJsonMessage,
+  parseMessage,
+  pollResponseSchema,
+  signalingEventSchema,
+  type IceServersResponse,
+  type JoinErrorCode,
+  type RoomSettingsInput,
+  type SignalingEvent,
+  type SignalingMessage,
+  type SignalingPayload,
+} from "@/lib/protocol"
+import { TypedEmitter } from "./emitter"
+
+export interface JoinOptions {
+  password?: string
+  // Only take effect if this join creates the room
+  settings?: RoomSettingsInput
+}
+
+export interface JoinedRoom {
+  peers: string[]
+  // The public key each of those peers signs its envelopes with
+  keys: Record<string, string>
+}
+
+export type JoinOutcome = ({ success: true } & JoinedRoom) | { success: false; code?: JoinErrorCode; error?: string }
+
+// Offers, answers and candidates addressed to one peer
+export type OutgoingSignal = Extract<SignalingPayload, { type: "offer" | "answer" | "ice-candidate" }>
+
+export interface SignalingTransportEvents extends Record<string, unknown> {
+  // Human-readable status worth showing the user, e.g. falling back to polling
+  notice: string
+  // The server had dropped us and we joined again; carries the peers now in the room
+  rejoined: JoinedRoom
+  // The server dropped us and joining again failed, so the transport has stopped
+  evicted: string
+}
+
+/**
+ * How a P2PRoom talks to the signaling server. Implementations deliver each inbound message
+ * exactly once and in order, waiting for the handler before moving on.
+ */
+export interface SignalingTransport {
+  readonly peerId: string
+  /** `publicKey` is handed to the rest of the room, to check our envelopes' signatures with. */
+  join(roomId: string, publicKey: string, options?: JoinOptions): Promise<JoinOutcome>
+  /** Starts delivering messages addressed to this peer. */
+  start(onMessage: (message: SignalingMessage) => Promise<void>): void
+  send(signal: OutgoingSignal): Promise<void>
+  /** `beacon` uses navigator.sendBeacon so the leave survives the page unloading. */
+  leave(options?: { beacon?: boolean }): Promise<void>
+  fetchIceServers(): Promise<IceServersResponse | null>
+  on<K extends keyof SignalingTransportEvents>(
+    event: K,
+    listener: (payload: SignalingTransportEvents[K]) => void,
+  ): () => void
+}
+
+export interface HttpSignalingTransportOptions {
+  peerId: string
+  // Origin of the Next.js server; empty for same-origin requests from the page
+  baseUrl?: string
+  fetch?: typeof fetch
+  // Falls back to polling when unavailable, e.g. under Node
+  EventSource?: typeof EventSource
+  pollInterval?: number
+  heartbeatInterval?: number
+}
+
+const MAX_RATE_LIMIT_RETRIES = 3
+
+// The `error` field of a failed response, which the join schema doesn't cover
+const errorMessage = (raw: unknown) =>
+  typeof raw === "object" && raw !== null && "error" in raw && typeof raw.error === "string" ? raw.error : undefined
+
+/**
+ * Talks to /api/signaling: an SSE stream with polling as fallback, sequence-number
+ * acknowledgements, heartbeats, session tokens and backoff on 429 responses.
+ */
+export class HttpSignalingTransport extends TypedEmitter<SignalingTransportEvents> implements SignalingTransport {
+  readonly peerId: string
+  private readonly baseUrl: string
+  private readonly fetch: typeof fetch
+  private readonly EventSource?: typeof EventSource
+  private readonly pollInterval: number
+  private readonly heartbeatInterval: number
+
+  private roomId: string | null = null
+  // Kept for joining again after an eviction
+  private publicKey = ""
+  private joinOptions: JoinOptions = {}
+  private rejoining = false
+  // Issued by join-room and required on every later signaling request
+  private sessionToken: string | null = null
+  private backoffUntil = 0
+  private lastSeq = 0
+  private queue: Promise<void> = Promise.resolve()
+  private onMessage: ((message: SignalingMessage) => Promise<void>) | null = null
+
+  private eventSource: EventSource | null = null
+  private pollTimer: ReturnType<typeof setInterval> | null = null
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  private ackTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(options: HttpSignalingTransportOptions) {
+    super()
+    this.peerId = options.peerId
+    this.baseUrl = options.baseUrl ?? ""
+    this.fetch = options.fetch ?? globalThis.fetch.bind(globalThis)
+    this.EventSource = options.EventSource ?? globalThis.EventSource
+    this.pollInterval = options.pollInterval ?? 2000
+    this.heartbeatInterval = options.heartbeatInterval ?? 10000
+  }
+
+  async join(roomId: string, publicKey: string, options: JoinOptions = {}): Promise<JoinOutcome> {
+    this.roomId = roomId
+    this.publicKey = publicKey
+    this.joinOptions = options
+    const raw = await this.request({
+      type: "join-room",
+      publicKey,
+      password: options.password,
+      settings: options.settings,
+    })
+    const response = parseMessage(joinRoomResponseSchema, raw, "join-room response")
+
+    if (!response) {
+      return {
+        success: false,
+        error: errorMessage(raw),
+      }
+    }
+    if (!response.success) {
+      return { success: false, code: response.code, error: response.error }
+    }
+
+    this.sessionToken = response.token
+    this.startHeartbeat()
+    return { success: true, peers: response.peers, keys: response.keys }
+  }
+
+  start(onMessage: (message: SignalingMessage) => Promise<void>) {
+    this.onMessage = onMessage
+    this.startStream()
+  }
+
+  async send(signal: OutgoingSignal) {
+    await this.request(signal)
+  }
+
+  async leave({ beacon = false }: { beacon?: boolean } = {}) {
+    const roomId = this.roomId
+    const token = this.sessionToken ?? undefined
+    this.stop()
+
+    if (!roomId) return
+    if (beacon && typeof navigator !== "undefined" && navigator.sendBeacon) {
+      const payload = JSON.stringify({
+        type: "leave",
+        roomId,
+        peerId: this.peerId,
+        token,
+      })
+      navigator.sendBeacon(`${this.baseUrl}/api/signaling`, new Blob([payload], { type: "application/json" }))
+    } else {
+      await this.request({ type: "leave" }, roomId, token)
+    }
+  }
+
+  async fetchIceServers() {
+    if (!this.roomId) return null
+    try {
+      const params = new URLSearchParams({
+        roomId: this.roomId,
+        peerId: this.peerId,
+        token: this.sessionToken ?? "",
+      })
+      const response = await this.fetch(`${this.baseUrl}/api/ice-servers?${params}`)
+      return parseMessage(iceServersResponseSchema, await response.json(), "ice-servers response")
+    } catch (error) {
+      console.error("Failed to load ICE servers:", error)
+      return null
+    }
+  }
+
+  private stop() {
+    this.eventSource?.close()
+    this.eventSource = null
+    for (const timer of [this.pollTimer, this.heartbeatTimer]) {
+      if (timer) clearInterval(timer)
+    }
+    if (this.ackTimer) clearTimeout(this.ackTimer)
+    this.pollTimer = this.heartbeatTimer = this.ackTimer = null
+    this.onMessage = null
+    this.roomId = null
+    this.sessionToken = null
+    this.lastSeq = 0
+  }
+
+  private async request(
+    data: SignalingPayload,
+    roomId = this.roomId,
+    token = this.sessionToken ?? undefined,
+    attempt = 0,
+  ): Promise<unknown> {
+    // Hold every request while the server has asked us to back off
+    const wait = this.backoffUntil - Date.now()
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait))
+    }
+
+    try {
+      const response = await this.fetch(`${this.baseUrl}/api/signaling`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...data, roomId, peerId: this.peerId, token }),
+      })
+
+      // Every request but join-room needs us in the room, so the server has evicted us. Only our
+      // current session counts: requests still in flight from before a rejoin also get a 403.
+      if (response.status === 403 && data.type !== "join-room" && token === (this.sessionToken ?? undefined)) {
+        this.rejoin()
+      }
+
+      if (response.status === 429) {
+        // Exponential backoff on top of the server's Retry-After, with jitter so peers don't retry in lockstep
+        const retryAfter = Number(response.headers.get("Retry-After")) || 1
+        const delay = retryAfter * 1000 * 2 ** attempt + Math.random() * 500
+        this.backoffUntil = Math.max(this.backoffUntil, Date.now() + delay)
+
+        if (attempt < MAX_RATE_LIMIT_RETRIES) {
+          return this.request(data, roomId, token, attempt + 1)
+        }
+        this.emit("notice", "⏳ Signaling server is busy. Some connection updates may be delayed.")
+        return { error: "Rate limited" }
+      }
+
+      return await response.json()
+    } catch (error) {
+      console.error("Signaling error:", error)
+      this.emit("notice", "❌ Signaling server error. Check your connection.")
+      return { error: "Network error" }
+    }
+  }
+
+  /**
+   * The server evicts peers it hasn't heard from for a while, e.g. a laptop that went to sleep.
+   * Joining again starts a fresh session and mailbox, so the stream restarts from the beginning.
+   */
+  private async rejoin() {
+    const roomId = this.roomId
+    if (this.rejoining || !roomId) return
+    this.rejoining = true
+
+    try {
+      this.emit("notice", "⚠️ Lost contact with the signaling server. Rejoining...")
+      const outcome = await this.join(roomId, this.publicKey, this.joinOptions)
+      // We left while the join was in flight
+      if (this.roomId === null) {
+        this.stop()
+        return
+      }
+
+      if (!outcome.success) {
+        this.stop()
+        this.emit("evicted", outcome.error ?? "Could not rejoin the room")
+        return
+      }
+
+      this.lastSeq = 0
+      if (this.onMessage) {
+        this.eventSource?.close()
+        this.eventSource = null
+        if (this.pollTimer) clearInterval(this.pollTimer)
+        this.pollTimer = null
+        this.startStream()
+      }
+      this.emit("rejoined", { peers: outcome.peers, keys: outcome.keys })
+    } finally {
+      this.rejoining = false
+    }
+  }
+
+  // Runs signaling events strictly in sequence order, skipping anything already handled,
+  // so an answer never races its own offer and a redelivered event is applied only once
+  private process(events: SignalingEvent[]) {
+    this.queue = this.queue.then(async () => {
+      for (const event of events) {
+        if (event.seq <= this.lastSeq || !this.onMessage) continue
+        const { seq, ...message } = event
+        try {
+          await this.onMessage(message as SignalingMessage)
+        } catch (error) {
+          console.error(`Error handling signaling ${event.type}:`, error)
+        }
+        this.lastSeq = seq
+      }
+    })
+    return this.queue
+  }
+
+  // Debounced so a burst of ICE candidates is acknowledged with a single request
+  private scheduleAck() {
+    if (this.ackTimer) return
+    this.ackTimer = setTimeout(() => {
+      this.ackTimer = null
+      if (this.roomId) this.request({ type: "ack", seq: this.lastSeq })
+    }, 500)
+  }
+
+  private poll = async () => {
+    // Skip polls while backing off instead of queueing them up behind the delay
+    if (Date.now() < this.backoffUntil) return
+
+    try {
+      const response = parseMessage(
+        pollResponseSchema,
+        await this.request({ type: "poll", ack: this.lastSeq }),
+        "poll response",
+      )
+      if (response) {
+        await this.process(response.events)
+      }
+    } catch (error) {
+      console.error("Polling error:", error)
+    }
+  }
+
+  private startPolling() {
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(this.poll, this.pollInterval)
+    }
+  }
+
+  // Prefer the push stream; fall back to polling only when it can't be opened
+  private startStream() {
+    const EventSourceImpl = this.EventSource
+    if (!EventSourceImpl || !this.roomId) {
+      this.startPolling()
+      return
+    }
+
+    const params = new URLSearchParams({
+      roomId: this.roomId,
+      peerId: this.peerId,
+      token: this.sessionToken ?? "",
+      after: String(this.lastSeq),
+    })
+    const source = new EventSourceImpl(`${this.baseUrl}/api/signaling/stream?${params}`)
+    this.eventSource = source
+    let opened = false
+
+    source.onopen = () => {
+      opened = true
+    }
+
+    source.addEventListener("signal", (e) => {
+      const event = parseJsonMessage(signalingEventSchema, (e as MessageEvent).data, "signaling event")
+      if (event) {
+        this.process([event]).then(() => this.scheduleAck())
+      }
+    })
+
+    source.onerror = () => {
+      if (opened && source.readyState !== EventSourceImpl.CLOSED) return
+      source.close()
+      if (this.eventSource !== source) return
+      this.eventSource = null
+      this.emit("notice", "⚠️ Live signaling unavailable, falling back to polling")
+      this.startPolling()
+    }
+  }
+
+  private startHeartbeat() {
+    if (this.heartbeatTimer) return
+    this.heartbeatTimer = setInterval(async () => {
+      const response = parseMessage(
+        heartbeatResponseSchema,
+        await this.request({ type: "heartbeat" }),
+        "heartbeat response",
+      )
+      if (response) {
+        this.sessionToken = response.token
+      }
+    }, this.heartbeatInterval)
+  }
+}
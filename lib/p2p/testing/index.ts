@@ -0,0 +1,2 @@
+export { LoopbackDataChannel, LoopbackNetwork, LoopbackPeerConnection, type LoopbackNetworkOptions } from "./loopback"
+export { MemorySignalingServer, MemorySignalingTransport } from "./memory-signaling"
@@ -0,0 +1,570 @@
+/**
+ * In-process stand-ins for RTCPeerConnection and RTCDataChannel. Peer connections created from
+ * the same LoopbackNetwork negotiate through real offer/answer/candidate exchanges and connect to
+ * each other without any network, so connection flows run deterministically under Node.
+ */
+
+export interface LoopbackNetworkOptions {
+  // How long a "disconnected" connection waits for its link to come back before it "failed"s
+  failTimeout?: number
+}
+
+type LinkState = "up" | "down"
+
+interface ParsedDescription {
+  pcId: string
+  ufrag: string
+  application: boolean
+}
+
+const SDP_PATTERN = /^o=- (\S+) .*$[\s\S]*^a=ice-ufrag:(\S+)$/m
+
+function parseSdp(sdp: string | undefined): ParsedDescription | null {
+  const match = sdp?.match(SDP_PATTERN)
+  if (!match) return null
+  return { pcId: match[1], ufrag: match[2], application: sdp!.includes("m=application") }
+}
+
+function invalidState(message: string) {
+  return new DOMException(message, "InvalidStateError")
+}
+
+function linkKey(a: string, b: string) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`
+}
+
+class LoopbackSessionDescription {
+  constructor(
+    readonly type: RTCSdpType,
+    readonly sdp: string,
+  ) {}
+
+  toJSON(): RTCSessionDescriptionInit {
+    return { type: this.type, sdp: this.sdp }
+  }
+}
+
+class LoopbackIceCandidate {
+  readonly sdpMid = "0"
+  readonly sdpMLineIndex = 0
+
+  constructor(
+    readonly candidate: string,
+    readonly usernameFragment: string,
+  ) {}
+
+  toJSON(): RTCIceCandidateInit {
+    return {
+      candidate: this.candidate,
+      sdpMid: this.sdpMid,
+      sdpMLineIndex: this.sdpMLineIndex,
+      usernameFragment: this.usernameFragment,
+    }
+  }
+}
+
+/** Shared medium for loopback connections; also lets a scenario cut and restore links between peers. */
+export class LoopbackNetwork {
+  readonly failTimeout: number
+  private connections = new Map<string, LoopbackPeerConnection>()
+  private links = new Map<string, LinkState>()
+  private nextId = 1
+  private nextChannelId = 1000
+
+  constructor(options: LoopbackNetworkOptions = {}) {
+    this.failTimeout = options.failTimeout ?? 5000
+  }
+
+  /** A drop-in for `new RTCPeerConnection(config)` whose connections belong to `label`, e.g. a peer id. */
+  peerConnectionFactory(label: string) {
+    return (config?: RTCConfiguration) =>
+      new LoopbackPeerConnection(this, label, config) as unknown as RTCPeerConnection
+  }
+
+  /** Cuts or restores connectivity between every connection of two labels. */
+  setLink(a: string, b: string, state: LinkState) {
+    this.links.set(linkKey(a, b), state)
+    this.connections.forEach((pc) => {
+      if (pc.label === a || pc.label === b) pc.checkConnectivity()
+    })
+  }
+
+  isLinkUp(a: string, b: string) {
+    return this.links.get(linkKey(a, b)) !== "down"
+  }
+
+  /** Lets every queued callback and zero-delay timer run, for asserting on a settled state. */
+  async settle(rounds = 50) {
+    for (let i = 0; i < rounds; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    }
+  }
+
+  /** @internal */
+  register(pc: LoopbackPeerConnection) {
+    const id = `pc${this.nextId++}`
+    this.connections.set(id, pc)
+    return id
+  }
+
+  /** @internal */
+  unregister(id: string) {
+    this.connections.delete(id)
+  }
+
+  /** @internal */
+  get(id: string) {
+    return this.connections.get(id)
+  }
+
+  /** @internal */
+  allocateChannelId() {
+    return this.nextChannelId++
+  }
+}
+
+export class LoopbackDataChannel extends EventTarget {
+  readonly label: string
+  readonly ordered: boolean
+  readonly negotiated: boolean
+  readonly maxRetransmits: number | null
+  readonly maxPacketLifeTime: number | null
+  readonly protocol = ""
+  binaryType: BinaryType = "arraybuffer"
+  bufferedAmount = 0
+  bufferedAmountLowThreshold = 0
+  readyState: RTCDataChannelState = "connecting"
+
+  onopen: ((event: Event) => void) | null = null
+  onmessage: ((event: MessageEvent) => void) | null = null
+  onclose: ((event: Event) => void) | null = null
+  onclosing: ((event: Event) => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+  onbufferedamountlow: ((event: Event) => void) | null = null
+
+  /** @internal */
+  remote: LoopbackDataChannel | null = null
+
+  constructor(
+    readonly id: number,
+    label: string,
+    init: RTCDataChannelInit,
+    private readonly owner: LoopbackPeerConnection,
+  ) {
+    super()
+    this.label = label
+    this.ordered = init.ordered ?? true
+    this.negotiated = init.negotiated ?? false
+    this.maxRetransmits = init.maxRetransmits ?? null
+    this.maxPacketLifeTime = init.maxPacketLifeTime ?? null
+  }
+
+  send(data: string | Blob | ArrayBuffer | ArrayBufferView) {
+    if (this.readyState !== "open") {
+      throw invalidState(`RTCDataChannel "${this.label}" is ${this.readyState}`)
+    }
+    // Frames sent while the underlying connection is down are lost, as they would be on the wire
+    const remote = this.remote
+    if (!remote || this.owner.connectionState !== "connected") return
+    queueMicrotask(() => {
+      if (remote.readyState === "open") {
+        remote.fire("message", new MessageEvent("message", { data }))
+      }
+    })
+  }
+
+  close() {
+    if (this.readyState === "closed") return
+    const remote = this.remote
+    this.remote = null
+    this.markClosed()
+    if (remote) {
+      remote.remote = null
+      queueMicrotask(() => remote.markClosed())
+    }
+  }
+
+  /** @internal */
+  open() {
+    if (this.readyState !== "connecting") return
+    this.readyState = "open"
+    this.fire("open", new Event("open"))
+  }
+
+  /** @internal */
+  markClosed() {
+    if (this.readyState === "closed") return
+    this.readyState = "closed"
+    this.fire("close", new Event("close"))
+  }
+
+  private fire(type: "open" | "message" | "close", event: Event) {
+    const handler = this[`on${type}`] as ((event: Event) => void) | null
+    handler?.call(this, event)
+    this.dispatchEvent(event)
+  }
+}
+
+type Handler<E extends Event = Event> = ((event: E) => void) | null
+
+export class LoopbackPeerConnection extends EventTarget {
+  readonly id: string
+  signalingState: RTCSignalingState = "stable"
+  connectionState: RTCPeerConnectionState = "new"
+  iceConnectionState: RTCIceConnectionState = "new"
+  iceGatheringState: RTCIceGatheringState = "new"
+  localDescription: LoopbackSessionDescription | null = null
+  remoteDescription: LoopbackSessionDescription | null = null
+
+  onnegotiationneeded: Handler = null
+  onicecandidate: Handler<Event & { candidate: LoopbackIceCandidate | null }> = null
+  oniceconnectionstatechange: Handler = null
+  onconnectionstatechange: Handler = null
+  onsignalingstatechange: Handler = null
+  onicegatheringstatechange: Handler = null
+  ondatachannel: Handler<Event & { channel: LoopbackDataChannel }> = null
+
+  private config: RTCConfiguration
+  private channels = new Map<number, LoopbackDataChannel>()
+  private operations: Promise<unknown> = Promise.resolve()
+  // Descriptions as of the last completed negotiation, restored on rollback
+  private currentLocal: LoopbackSessionDescription | null = null
+  private currentRemote: LoopbackSessionDescription | null = null
+  private iceGeneration = 0
+  private restartPending = false
+  // Set while our pending local offer is an ICE restart, so a rollback can undo it
+  private offerRestartsIce = false
+  // Whether a completed negotiation has set up the SCTP transport data channels ride on
+  private sctpNegotiated = false
+  private negotiationQueued = false
+  // Remote ufrags we've received at least one candidate for; ICE can't connect without one
+  private remoteCandidateUfrags = new Set<string>()
+  private failTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(
+    private readonly network: LoopbackNetwork,
+    readonly label: string,
+    config: RTCConfiguration = {},
+  ) {
+    super()
+    this.id = network.register(this)
+    this.config = config
+  }
+
+  getConfiguration() {
+    return this.config
+  }
+
+  setConfiguration(config: RTCConfiguration) {
+    this.assertOpen()
+    this.config = config
+  }
+
+  createDataChannel(label: string, init: RTCDataChannelInit = {}) {
+    this.assertOpen()
+    const id = init.negotiated ? init.id : (init.id ?? this.network.allocateChannelId())
+    if (id === undefined) {
+      throw new TypeError("Negotiated data channels need an id")
+    }
+    if (this.channels.has(id)) {
+      throw new DOMException(`Data channel id ${id} is already in use`, "OperationError")
+    }
+
+    const channel = new LoopbackDataChannel(id, label, init, this)
+    this.channels.set(id, channel)
+    this.queueNegotiationNeeded()
+    queueMicrotask(() => this.pairChannels())
+    return channel as unknown as RTCDataChannel
+  }
+
+  restartIce() {
+    this.restartPending = true
+    this.queueNegotiationNeeded()
+  }
+
+  setLocalDescription(description?: RTCSessionDescriptionInit) {
+    return this.enqueue(() => {
+      const type = description?.type ?? (this.signalingState === "have-remote-offer" ? "answer" : "offer")
+
+      if (type === "rollback") {
+        if (this.signalingState !== "have-local-offer") throw invalidState("Nothing to roll back")
+        this.rollbackLocalOffer()
+        this.setSignalingState("stable")
+        return
+      }
+      if (type === "offer") {
+        if (this.signalingState !== "stable" && this.signalingState !== "have-local-offer") {
+          throw invalidState(`Can't set a local offer in ${this.signalingState}`)
+        }
+        if (this.restartPending) {
+          this.restartPending = false
+          if (!this.offerRestartsIce) {
+            this.offerRestartsIce = true
+            this.iceGeneration++
+          }
+        }
+        this.localDescription = new LoopbackSessionDescription("offer", this.buildSdp(this.channels.size > 0))
+        this.setSignalingState("have-local-offer")
+      } else {
+        if (this.signalingState !== "have-remote-offer") {
+          throw invalidState(`Can't set a local answer in ${this.signalingState}`)
+        }
+        const offer = parseSdp(this.remoteDescription?.sdp)!
+        // An offer with a new ufrag is an ICE restart, which the answerer joins in
+        const previous = parseSdp(this.currentRemote?.sdp)
+        if (previous && previous.ufrag !== offer.ufrag) {
+          this.iceGeneration++
+          this.restartPending = false
+        }
+        this.localDescription = new LoopbackSessionDescription("answer", this.buildSdp(offer.application))
+        this.completeNegotiation(offer.application)
+      }
+      this.gatherCandidates()
+    })
+  }
+
+  setRemoteDescription(description: RTCSessionDescriptionInit) {
+    return this.enqueue(() => {
+      const parsed = parseSdp(description.sdp)
+      if (description.type === "rollback") {
+        if (this.signalingState !== "have-remote-offer") throw invalidState("Nothing to roll back")
+        this.remoteDescription = this.currentRemote
+        this.setSignalingState("stable")
+        return
+      }
+      if (!parsed) throw new DOMException("Unrecognised session description", "OperationError")
+
+      if (description.type === "offer") {
+        // Applying an offer over our own implicitly rolls ours back, as the spec allows
+        if (this.signalingState === "have-local-offer") {
+          this.rollbackLocalOffer()
+        } else if (this.signalingState !== "stable") {
+          throw invalidState(`Can't set a remote offer in ${this.signalingState}`)
+        }
+        this.remoteDescription = new LoopbackSessionDescription("offer", description.sdp!)
+        this.setSignalingState("have-remote-offer")
+      } else if (description.type === "answer") {
+        if (this.signalingState !== "have-local-offer") {
+          throw invalidState(`Can't set a remote answer in ${this.signalingState}`)
+        }
+        this.remoteDescription = new LoopbackSessionDescription("answer", description.sdp!)
+        this.completeNegotiation(parseSdp(this.localDescription?.sdp)!.application)
+      }
+    })
+  }
+
+  addIceCandidate(candidate?: RTCIceCandidateInit | null) {
+    return this.enqueue(() => {
+      if (!this.remoteDescription) throw invalidState("The remote description was null")
+      if (!candidate?.candidate) return
+
+      const ufrag = candidate.usernameFragment ?? parseSdp(this.remoteDescription.sdp)!.ufrag
+      this.remoteCandidateUfrags.add(ufrag)
+      this.checkConnectivity()
+    })
+  }
+
+  async getStats() {
+    return new Map() as unknown as RTCStatsReport
+  }
+
+  close() {
+    if (this.signalingState === "closed") return
+    const remote = this.remotePeer()
+    this.signalingState = "closed"
+    this.connectionState = "closed"
+    this.iceConnectionState = "closed"
+    this.clearFailTimer()
+    this.channels.forEach((channel) => channel.close())
+    this.network.unregister(this.id)
+    remote?.checkConnectivity()
+  }
+
+  /** @internal Connects or disconnects this connection to match the negotiated state and the link. */
+  checkConnectivity() {
+    if (this.signalingState === "closed") return
+    const remote = this.remotePeer()
+    const reachable = !!remote && this.agreesWith(remote) && remote.agreesWith(this)
+    const linkUp = !!remote && this.network.isLinkUp(this.label, remote.label)
+
+    if (reachable && linkUp) {
+      this.markConnected()
+      remote!.markConnected()
+    } else if (this.connectionState === "connected") {
+      this.markDisconnected()
+    }
+  }
+
+  private enqueue(operation: () => void) {
+    const result = this.operations.then(() => {
+      this.assertOpen()
+      operation()
+    })
+    this.operations = result.catch(() => undefined)
+    return result
+  }
+
+  private assertOpen() {
+    if (this.signalingState === "closed") throw invalidState("The RTCPeerConnection is closed")
+  }
+
+  // Restores the last negotiated local description; an ICE restart it carried is retried later
+  private rollbackLocalOffer() {
+    this.localDescription = this.currentLocal
+    if (this.offerRestartsIce) {
+      this.offerRestartsIce = false
+      this.restartPending = true
+      this.iceGeneration--
+    }
+  }
+
+  private get ufrag() {
+    return `${this.id}g${this.iceGeneration}`
+  }
+
+  private buildSdp(application: boolean) {
+    const lines = ["v=0", `o=- ${this.id} ${this.iceGeneration} IN IP4 127.0.0.1`, "s=-", `a=ice-ufrag:${this.ufrag}`]
+    if (application) lines.push("m=application 9 UDP/DTLS/SCTP webrtc-datachannel")
+    return lines.join("\r\n") + "\r\n"
+  }
+
+  private remotePeer() {
+    const remote = parseSdp(this.currentRemote?.sdp)
+    return remote ? this.network.get(remote.pcId) : undefined
+  }
+
+  // True once we've completed a negotiation with `remote` at its current ufrag and heard a candidate for it
+  private agreesWith(remote: LoopbackPeerConnection) {
+    const description = parseSdp(this.currentRemote?.sdp)
+    return (
+      this.signalingState === "stable" &&
+      description?.pcId === remote.id &&
+      description.ufrag === remote.ufrag &&
+      this.remoteCandidateUfrags.has(remote.ufrag)
+    )
+  }
+
+  private completeNegotiation(application: boolean) {
+    this.offerRestartsIce = false
+    this.currentLocal = this.localDescription
+    this.currentRemote = this.remoteDescription
+    if (application) this.sctpNegotiated = true
+    this.setSignalingState("stable")
+    queueMicrotask(() => this.checkConnectivity())
+  }
+
+  private gatherCandidates() {
+    const ufrag = this.ufrag
+    const port = 50000 + Number(this.id.slice(2))
+    queueMicrotask(() => {
+      if (this.signalingState === "closed" || ufrag !== this.ufrag) return
+      this.setGatheringState("gathering")
+      const candidate = new LoopbackIceCandidate(
+        `candidate:1 1 udp 2122260223 127.0.0.1 ${port} typ host ufrag ${ufrag}`,
+        ufrag,
+      )
+      this.fire("icecandidate", Object.assign(new Event("icecandidate"), { candidate }))
+      this.setGatheringState("complete")
+      this.fire("icecandidate", Object.assign(new Event("icecandidate"), { candidate: null }))
+    })
+  }
+
+  // Like the browser, negotiationneeded waits for a stable signaling state and fires once per change
+  private queueNegotiationNeeded() {
+    if (this.negotiationQueued) return
+    this.negotiationQueued = true
+    this.operations.then(() =>
+      queueMicrotask(() => {
+        this.negotiationQueued = false
+        if (this.signalingState !== "stable" || !this.needsNegotiation()) return
+        this.fire("negotiationneeded", new Event("negotiationneeded"))
+      }),
+    )
+  }
+
+  private needsNegotiation() {
+    return this.restartPending || (this.channels.size > 0 && !this.sctpNegotiated)
+  }
+
+  private setSignalingState(state: RTCSignalingState) {
+    if (this.signalingState === state) return
+    this.signalingState = state
+    this.fire("signalingstatechange", new Event("signalingstatechange"))
+    if (state === "stable" && this.needsNegotiation()) this.queueNegotiationNeeded()
+  }
+
+  private setGatheringState(state: RTCIceGatheringState) {
+    this.iceGatheringState = state
+    this.fire("icegatheringstatechange", new Event("icegatheringstatechange"))
+  }
+
+  private setStates(ice: RTCIceConnectionState, connection: RTCPeerConnectionState) {
+    if (this.iceConnectionState !== ice) {
+      this.iceConnectionState = ice
+      this.fire("iceconnectionstatechange", new Event("iceconnectionstatechange"))
+    }
+    if (this.connectionState !== connection) {
+      this.connectionState = connection
+      this.fire("connectionstatechange", new Event("connectionstatechange"))
+    }
+  }
+
+  private markConnected() {
+    this.clearFailTimer()
+    if (this.connectionState === "connected") return
+    if (this.connectionState === "new") this.setStates("checking", "connecting")
+    this.setStates("connected", "connected")
+    this.pairChannels()
+  }
+
+  private markDisconnected() {
+    this.setStates("disconnected", "disconnected")
+    this.failTimer = setTimeout(() => {
+      this.failTimer = null
+      if (this.connectionState === "disconnected") this.setStates("failed", "failed")
+    }, this.network.failTimeout)
+  }
+
+  private clearFailTimer() {
+    if (this.failTimer) clearTimeout(this.failTimer)
+    this.failTimer = null
+  }
+
+  // Opens channels once both ends are connected: negotiated ones pair up by id, the rest are
+  // announced to the remote side through ondatachannel
+  private pairChannels() {
+    const remote = this.remotePeer()
+    if (!remote || this.connectionState !== "connected" || remote.connectionState !== "connected") return
+
+    this.channels.forEach((channel, id) => {
+      if (channel.readyState !== "connecting") return
+      let counterpart = remote.channels.get(id)
+      if (!counterpart && !channel.negotiated) {
+        counterpart = new LoopbackDataChannel(
+          id,
+          channel.label,
+          {
+            ordered: channel.ordered,
+            maxRetransmits: channel.maxRetransmits ?? undefined,
+            maxPacketLifeTime: channel.maxPacketLifeTime ?? undefined,
+          },
+          remote,
+        )
+        remote.channels.set(id, counterpart)
+        remote.fire("datachannel", Object.assign(new Event("datachannel"), { channel: counterpart }))
+      }
+      if (!counterpart || counterpart.readyState !== "connecting") return
+
+      channel.remote = counterpart
+      counterpart.remote = channel
+      channel.open()
+      counterpart.open()
+    })
+  }
+
+  private fire(type: string, event: Event) {
+    const handler = (this as unknown as Record<string, Handler>)[`on${type}`]
+    handler?.call(this, event)
+    this.dispatchEvent(event)
+  }
+}
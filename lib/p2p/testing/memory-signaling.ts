@@ -0,0 +1,153 @@
+import type { IceServersResponse, SignalingMessage } from "@/lib/protocol"
+import { TypedEmitter } from "../emitter"
+import type {
+  JoinOptions,
+  JoinOutcome,
+  OutgoingSignal,
+  SignalingTransport,
+  SignalingTransportEvents,
+} from "../signaling"
+
+interface MemoryPeer {
+  transport: MemorySignalingTransport
+  publicKey: string
+}
+
+interface MemoryRoom {
+  maxPeers: number
+  password?: string
+  peers: Map<string, MemoryPeer>
+}
+
+/**
+ * In-process counterpart of /api/signaling: tracks rooms and routes offers, answers, candidates and
+ * peer-left events between MemorySignalingTransports, in order and exactly once.
+ */
+export class MemorySignalingServer {
+  private rooms = new Map<string, MemoryRoom>()
+  // Every signal routed so far, for asserting on traffic
+  readonly log: { roomId: string; to: string; message: SignalingMessage }[] = []
+
+  createTransport(peerId: string) {
+    return new MemorySignalingTransport(this, peerId)
+  }
+
+  peersIn(roomId: string) {
+    return Array.from(this.rooms.get(roomId)?.peers.keys() ?? [])
+  }
+
+  /** @internal */
+  join(
+    roomId: string,
+    transport: MemorySignalingTransport,
+    publicKey: string,
+    { password, settings }: JoinOptions,
+  ): JoinOutcome {
+    let room = this.rooms.get(roomId)
+    if (!room) {
+      room = { maxPeers: settings?.maxPeers ?? 8, password: settings?.password, peers: new Map() }
+      this.rooms.set(roomId, room)
+    }
+
+    if (room.password && !password) return { success: false, code: "PASSWORD_REQUIRED" }
+    if (room.password && room.password !== password) return { success: false, code: "INVALID_PASSWORD" }
+    if (room.peers.has(transport.peerId)) return { success: false, code: "PEER_ID_TAKEN" }
+    if (room.peers.size >= room.maxPeers) return { success: false, code: "ROOM_FULL" }
+
+    const peers = Array.from(room.peers.keys())
+    const keys = Object.fromEntries(Array.from(room.peers, ([id, peer]) => [id, peer.publicKey]))
+    room.peers.set(transport.peerId, { transport, publicKey })
+    return { success: true, peers, keys }
+  }
+
+  /** @internal */
+  leave(roomId: string, peerId: string) {
+    const room = this.rooms.get(roomId)
+    if (!room?.peers.delete(peerId)) return
+
+    room.peers.forEach((_, to) => this.route(roomId, to, { type: "peer-left", from: peerId }))
+    if (room.peers.size === 0) this.rooms.delete(roomId)
+  }
+
+  /** @internal */
+  publicKeyOf(roomId: string, peerId: string) {
+    return this.rooms.get(roomId)?.peers.get(peerId)?.publicKey
+  }
+
+  /** @internal Returns false when the target isn't in the room, like the route handler's 404. */
+  route(roomId: string, to: string, message: SignalingMessage) {
+    const target = this.rooms.get(roomId)?.peers.get(to)
+    if (!target) return false
+    this.log.push({ roomId, to, message })
+    target.transport.deliver(message)
+    return true
+  }
+}
+
+export class MemorySignalingTransport extends TypedEmitter<SignalingTransportEvents> implements SignalingTransport {
+  private roomId: string | null = null
+  private inbox: SignalingMessage[] = []
+  private queue: Promise<void> = Promise.resolve()
+  private onMessage: ((message: SignalingMessage) => Promise<void>) | null = null
+
+  constructor(
+    private readonly server: MemorySignalingServer,
+    readonly peerId: string,
+  ) {
+    super()
+  }
+
+  async join(roomId: string, publicKey: string, options: JoinOptions = {}) {
+    const outcome = this.server.join(roomId, this, publicKey, options)
+    if (outcome.success) this.roomId = roomId
+    return outcome
+  }
+
+  start(onMessage: (message: SignalingMessage) => Promise<void>) {
+    this.onMessage = onMessage
+    this.drain()
+  }
+
+  async send({ type, data }: OutgoingSignal) {
+    if (!this.roomId) return
+    const message: SignalingMessage =
+      type === "offer"
+        ? { type, from: this.peerId, offer: data.offer, key: this.server.publicKeyOf(this.roomId, this.peerId)! }
+        : type === "answer"
+          ? { type, from: this.peerId, answer: data.answer }
+          : { type, from: this.peerId, candidate: data.candidate }
+    this.server.route(this.roomId, data.to, message)
+  }
+
+  async leave() {
+    const roomId = this.roomId
+    this.roomId = null
+    this.onMessage = null
+    this.inbox = []
+    if (roomId) this.server.leave(roomId, this.peerId)
+  }
+
+  async fetchIceServers(): Promise<IceServersResponse> {
+    return { iceServers: [] }
+  }
+
+  /** @internal */
+  deliver(message: SignalingMessage) {
+    this.inbox.push(message)
+    this.drain()
+  }
+
+  // Hands messages over one at a time, each only after the previous handler has finished
+  private drain() {
+    this.queue = this.queue.then(async () => {
+      while (this.onMessage && this.inbox.length > 0) {
+        const message = this.inbox.shift()!
+        try {
+          await this.onMessage(message)
+        } catch (error) {
+          console.error(`Error handling signaling ${message.type}:`, error)
+        }
+      }
+    })
+  }
+}
@@ -0,0 +1,92 @@
+import type { TypingSignal } from "@/lib/protocol"
+
+// While the user keeps typing, "typing" is repeated this often so receivers don't expire it
+const TYPING_REFRESH_INTERVAL = 2000
+// No keystrokes for this long counts as having stopped
+const TYPING_IDLE_TIMEOUT = 3000
+// Receivers drop an indicator that hasn't been refreshed for this long, since the "stopped"
+// signal travels over an unreliable channel and may never arrive
+const TYPING_EXPIRY = 6000
+
+interface RemoteTyping {
+  name: string
+  seq: number
+  typing: boolean
+  expiry: ReturnType<typeof setTimeout> | null
+}
+
+/**
+ * Throttles our own typing signals and tracks everyone else's. Signals can be lost or arrive out
+ * of order, so each carries a sequence number and remote indicators expire on their own.
+ */
+export class TypingTracker {
+  private seq = 0
+  private typing = false
+  private lastSent = 0
+  private idleTimer: ReturnType<typeof setTimeout> | null = null
+  private remote = new Map<string, RemoteTyping>()
+
+  constructor(
+    private readonly send: (signal: TypingSignal) => void,
+    private readonly onChange: (peerId: string, name: string, typing: boolean) => void,
+  ) {}
+
+  /** Call on every keystroke; sends at most one "typing" signal per refresh interval. */
+  keystroke(name: string) {
+    const now = Date.now()
+    if (!this.typing || now - this.lastSent >= TYPING_REFRESH_INTERVAL) {
+      this.typing = true
+      this.lastSent = now
+      this.send({ seq: ++this.seq, typing: true, name })
+    }
+
+    if (this.idleTimer) clearTimeout(this.idleTimer)
+    this.idleTimer = setTimeout(() => this.stop(name), TYPING_IDLE_TIMEOUT)
+  }
+
+  /** Call when the draft is sent or cleared. */
+  stop(name: string) {
+    if (this.idleTimer) clearTimeout(this.idleTimer)
+    this.idleTimer = null
+    if (!this.typing) return
+    this.typing = false
+    this.send({ seq: ++this.seq, typing: false, name })
+  }
+
+  receive(peerId: string, signal: TypingSignal) {
+    const current = this.remote.get(peerId)
+    if (current && signal.seq <= current.seq) return
+    if (current?.expiry) clearTimeout(current.expiry)
+
+    const entry: RemoteTyping = { name: signal.name, seq: signal.seq, typing: signal.typing, expiry: null }
+    if (signal.typing) {
+      entry.expiry = setTimeout(() => this.expire(peerId, entry), TYPING_EXPIRY)
+    }
+    this.remote.set(peerId, entry)
+    if (signal.typing !== (current?.typing ?? false)) {
+      this.onChange(peerId, signal.name, signal.typing)
+    }
+  }
+
+  forgetPeer(peerId: string) {
+    const current = this.remote.get(peerId)
+    if (!current) return
+    if (current.expiry) clearTimeout(current.expiry)
+    this.remote.delete(peerId)
+    if (current.typing) this.onChange(peerId, current.name, false)
+  }
+
+  clear() {
+    Array.from(this.remote.keys()).forEach((peerId) => this.forgetPeer(peerId))
+    if (this.idleTimer) clearTimeout(this.idleTimer)
+    this.idleTimer = null
+    this.typing = false
+  }
+
+  private expire(peerId: string, entry: RemoteTyping) {
+    // Keep the seq so a delayed signal from before the expiry can't revive the indicator
+    entry.expiry = null
+    entry.typing = false
+    this.onChange(peerId, entry.name, false)
+  }
+}
@@ -0,0 +1,60 @@
+// Condenses RTCPeerConnection.getStats() into the handful of numbers the diagnostics panel shows
+
+export type CandidateType = "host" | "srflx" | "prflx" | "relay"
+
+export interface PeerStatsSample {
+  timestamp: number
+  // Candidate types of the selected pair; relay means traffic goes through TURN
+  localCandidateType?: CandidateType
+  remoteCandidateType?: CandidateType
+  // Seconds, as reported by the browser
+  roundTripTime?: number
+  bytesSent: number
+  bytesReceived: number
+  connectionState: RTCPeerConnectionState
+  dataChannelState?: RTCDataChannelState
+}
+
+// Not in lib.dom's typings
+interface CandidateStats extends RTCStats {
+  candidateType?: CandidateType
+}
+
+function findSelectedPair(report: RTCStatsReport) {
+  let selected: RTCIceCandidatePairStats | undefined
+
+  // Chrome and Safari name the pair on the transport; Firefox flags it on the pair itself
+  report.forEach((stats: RTCStats) => {
+    if (stats.type === "transport") {
+      const pairId = (stats as RTCTransportStats).selectedCandidatePairId
+      if (pairId) selected = report.get(pairId)
+    }
+  })
+  if (selected) return selected
+
+  report.forEach((stats: RTCStats) => {
+    const pair = stats as RTCIceCandidatePairStats & { selected?: boolean }
+    if (stats.type === "candidate-pair" && (pair.selected || (pair.nominated && pair.state === "succeeded"))) {
+      selected ??= pair
+    }
+  })
+  return selected
+}
+
+export async function collectPeerStats(pc: RTCPeerConnection, dataChannel?: RTCDataChannel): Promise<PeerStatsSample> {
+  const report = await pc.getStats()
+  const pair = findSelectedPair(report)
+  const local: CandidateStats | undefined = pair ? report.get(pair.localCandidateId) : undefined
+  const remote: CandidateStats | undefined = pair ? report.get(pair.remoteCandidateId) : undefined
+
+  return {
+    timestamp: Date.now(),
+    localCandidateType: local?.candidateType,
+    remoteCandidateType: remote?.candidateType,
+    roundTripTime: pair?.currentRoundTripTime,
+    bytesSent: pair?.bytesSent ?? 0,
+    bytesReceived: pair?.bytesReceived ?? 0,
+    connectionState: pc.connectionState,
+    dataChannelState: dataChannel?.readyState,
+  }
+}
@@ -0,0 +1,260 @@
+// Shared wire protocol for /api/signaling and the peer-to-peer "chat" data channel.
+// Both the route handlers and the client validate every inbound message against these
+// schemas, so the TypeScript types below are derived from them rather than written by hand.
+
+import { z } from "zod"
+
+export const MAX_PEERS_LIMIT = 32
+export const MAX_IDLE_TIMEOUT_MINUTES = 24 * 60
+export const MAX_PASSWORD_LENGTH = 128
+// How many times a data-channel frame may be relayed before peers stop forwarding it
+export const MAX_RELAY_HOPS = 4
+// Version of the data-channel envelope format. New message types don't need a bump: receivers
+// ignore types they don't know, and only drop envelopes from a newer version entirely.
+// Version 2 made signatures mandatory.
+export const ENVELOPE_VERSION = 2
+// Longest excerpt of the original message carried in a reply
+export const MAX_REPLY_PREVIEW_LENGTH = 200
+// Most reactions sent to a peer that has just connected; the most recent ones win
+export const MAX_SYNCED_REACTIONS = 500
+
+const idSchema = z.string().min(1).max(64)
+// A peer's ECDSA P-256 public key as base64 SPKI, which it signs its envelopes with
+const publicKeySchema = z.string().min(1).max(256)
+
+export const sessionDescriptionSchema = z.object({
+  type: z.enum(["offer", "answer", "pranswer", "rollback"]),
+  sdp: z.string().max(32768).optional(),
+})
+
+export const iceCandidateSchema = z.object({
+  candidate: z.string().max(1024).optional(),
+  sdpMid: z.string().max(64).nullable().optional(),
+  sdpMLineIndex: z.number().int().nonnegative().nullable().optional(),
+  usernameFragment: z.string().max(256).nullable().optional(),
+})
+
+// Chosen by whoever creates the room; ignored when joining an existing one
+export const roomSettingsInputSchema = z.object({
+  maxPeers: z
+    .number()
+    .int("Maximum peers must be a whole number")
+    .min(2, "Rooms must allow at least 2 peers")
+    .max(MAX_PEERS_LIMIT, `Rooms are limited to ${MAX_PEERS_LIMIT} peers`)
+    .optional(),
+  password: z
+    .string()
+    .max(MAX_PASSWORD_LENGTH, `Passwords are limited to ${MAX_PASSWORD_LENGTH} characters`)
+    .optional(),
+  idleTimeoutMinutes: z
+    .number()
+    .min(1, "Idle expiry must be at least 1 minute")
+    .max(MAX_IDLE_TIMEOUT_MINUTES, `Idle expiry is limited to ${MAX_IDLE_TIMEOUT_MINUTES} minutes`)
+    .optional(),
+})
+
+// Every client request names the room and the sending peer. The session token issued by
+// join-room is required on everything else, and lets a peer reclaim its id on re-join.
+const peerAddressSchema = z.object({ roomId: idSchema, peerId: idSchema })
+const sessionTokenSchema = z.string().max(1024)
+export const clientRequestSchema = peerAddressSchema.extend({ token: sessionTokenSchema.optional() })
+
+export const signalingRequestSchema = z.discriminatedUnion("type", [
+  clientRequestSchema.extend({
+    type: z.literal("join-room"),
+    publicKey: publicKeySchema,
+    password: z.string().max(MAX_PASSWORD_LENGTH).optional(),
+    // Checked against roomSettingsInputSchema only if this join creates the room, so fields that
+    // would be ignored can't fail a join to an existing one
+    settings: z.unknown().optional(),
+  }),
+  clientRequestSchema.extend({ type: z.literal("leave") }),
+  clientRequestSchema.extend({ type: z.literal("heartbeat") }),
+  clientRequestSchema.extend({ type: z.literal("poll"), ack: z.number().int().nonnegative().optional() }),
+  clientRequestSchema.extend({ type: z.literal("ack"), seq: z.number().int().nonnegative() }),
+  clientRequestSchema.extend({
+    type: z.literal("offer"),
+    data: z.object({ to: idSchema, offer: sessionDescriptionSchema }),
+  }),
+  clientRequestSchema.extend({
+    type: z.literal("answer"),
+    data: z.object({ to: idSchema, answer: sessionDescriptionSchema }),
+  }),
+  clientRequestSchema.extend({
+    type: z.literal("ice-candidate"),
+    data: z.object({ to: idSchema, candidate: iceCandidateSchema }),
+  }),
+])
+
+export const signalingMessageSchema = z.discriminatedUnion("type", [
+  // The server adds the public key the sender joined with, so peers learn the keys of newcomers
+  z.object({ type: z.literal("offer"), from: idSchema, offer: sessionDescriptionSchema, key: publicKeySchema }),
+  z.object({ type: z.literal("answer"), from: idSchema, answer: sessionDescriptionSchema }),
+  z.object({ type: z.literal("ice-candidate"), from: idSchema, candidate: iceCandidateSchema }),
+  // Sent to the remaining members when a peer leaves or is evicted for missing heartbeats
+  z.object({ type: z.literal("peer-left"), from: idSchema }),
+])
+
+// Sequence numbers are per recipient and strictly increasing, so clients can acknowledge
+// everything up to a point and skip anything they've already handled
+export const signalingEventSchema = z.intersection(
+  signalingMessageSchema,
+  z.object({ seq: z.number().int().positive() }),
+)
+
+export const heartbeatResponseSchema = z.object({ success: z.literal(true), token: sessionTokenSchema })
+
+export const pollResponseSchema = z.object({ events: z.array(signalingEventSchema) })
+
+export const joinErrorCodeSchema = z.enum([
+  "ROOM_FULL",
+  "PASSWORD_REQUIRED",
+  "INVALID_PASSWORD",
+  "INVALID_SETTINGS",
+  "PEER_ID_TAKEN",
+])
+
+export const joinRoomResponseSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    peers: z.array(idSchema),
+    // The public key each of those peers joined with
+    keys: z.record(idSchema, publicKeySchema),
+    token: sessionTokenSchema,
+  }),
+  z.object({ success: z.literal(false), code: joinErrorCodeSchema, error: z.string() }),
+])
+
+export const iceServerSchema = z.object({
+  urls: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+  username: z.string().optional(),
+  credential: z.string().optional(),
+})
+
+// GET /api/ice-servers; expiresAt is set when the list includes short-lived TURN credentials
+export const iceServersResponseSchema = z.object({
+  iceServers: z.array(iceServerSchema),
+  expiresAt: z.number().optional(),
+})
+
+// What a reply quotes of the message it answers. The quote travels with the reply so it can be
+// shown even by peers that never saw the original, e.g. because they joined after it was sent.
+export const replyReferenceSchema = z.object({
+  id: idSchema,
+  // The message that started the thread; the same as id when replying to a message that isn't a reply
+  thread: idSchema,
+  sender: z.string().min(1).max(64),
+  preview: z.string().max(MAX_REPLY_PREVIEW_LENGTH),
+})
+
+export const chatMessageSchema = z.object({
+  sender: z.string().min(1).max(64),
+  content: z.string().min(1).max(10000),
+  replyTo: replyReferenceSchema.optional(),
+})
+
+// Frames on the unreliable "typing" data channel, which sits beside "chat". It's unordered, so
+// receivers use seq to ignore a signal that arrives after a newer one.
+export const typingSignalSchema = z.object({
+  seq: z.number().int().nonnegative(),
+  typing: z.boolean(),
+  name: chatMessageSchema.shape.sender,
+})
+
+// One peer's reaction with one emoji to one message. Each peer only ever writes its own, so the
+// entry with the highest clock is the current one, and "active" false records a withdrawn reaction.
+export const reactionSchema = z.object({
+  target: idSchema,
+  emoji: z.string().min(1).max(16),
+  peerId: idSchema,
+  name: chatMessageSchema.shape.sender,
+  active: z.boolean(),
+  clock: z.number().int().nonnegative(),
+})
+
+// Payload schemas for each envelope type sent over the "chat" data channel
+export const envelopePayloadSchemas = {
+  chat: chatMessageSchema,
+  // Only honoured when sent by the author of the target message
+  edit: z.object({ target: idSchema, content: chatMessageSchema.shape.content }),
+  delete: z.object({ target: idSchema }),
+  // The sender's own reaction; its peer id and clock come from the envelope
+  react: reactionSchema.omit({ peerId: true, clock: true }),
+  // Every reaction the sender knows of, sent to a peer when a channel to it opens so it catches up
+  reactions: z.object({ entries: z.array(reactionSchema).max(MAX_SYNCED_REACTIONS) }),
+  // Confirms receipt of the envelope with this id, addressed back to its sender
+  ack: z.object({ id: idSchema }),
+  // The reader has seen every message up to this one; its clock saves receivers a lookup
+  read: z.object({
+    upTo: idSchema,
+    clock: z.number().int().nonnegative(),
+    name: chatMessageSchema.shape.sender,
+  }),
+}
+
+// Every frame on the "chat" data channel. It names the peer that wrote it and carries its Lamport
+// timestamp, plus every peer it has already been sent to, so whoever receives it can relay it to
+// peers the sender has no direct link with. The payload is validated per type by the dispatcher,
+// and `sig` proves the author wrote it; see lib/p2p/identity.ts for what it covers.
+export const envelopeSchema = z.object({
+  v: z.number().int().positive(),
+  type: z.string().min(1).max(64),
+  id: idSchema,
+  from: idSchema,
+  // Set on envelopes meant for a single peer, such as acks and retransmissions
+  to: idSchema.optional(),
+  // Retransmission count; absent on the first send
+  attempt: z.number().int().positive().max(16).optional(),
+  clock: z.number().int().nonnegative(),
+  hops: z.number().int().nonnegative().max(MAX_RELAY_HOPS),
+  delivered: z.array(idSchema).max(MAX_PEERS_LIMIT),
+  payload: z.unknown(),
+  sig: z.string().min(1).max(128),
+})
+
+export type SignalingRequest = z.infer<typeof signalingRequestSchema>
+type WithoutAddress<T> = T extends unknown ? Omit<T, "roomId" | "peerId"> : never
+// What the client passes to sendToSignalingServer, which fills in roomId and peerId
+export type SignalingPayload = WithoutAddress<SignalingRequest>
+export type RoomSettingsInput = z.infer<typeof roomSettingsInputSchema>
+export type SignalingMessage = z.infer<typeof signalingMessageSchema>
+export type SignalingOffer = Extract<SignalingMessage, { type: "offer" }>
+export type SignalingAnswer = Extract<SignalingMessage, { type: "answer" }>
+export type SignalingCandidate = Extract<SignalingMessage, { type: "ice-candidate" }>
+export type SignalingPeerLeft = Extract<SignalingMessage, { type: "peer-left" }>
+export type SignalingEvent = z.infer<typeof signalingEventSchema>
+export type PollResponse = z.infer<typeof pollResponseSchema>
+export type HeartbeatResponse = z.infer<typeof heartbeatResponseSchema>
+export type JoinErrorCode = z.infer<typeof joinErrorCodeSchema>
+export type JoinRoomResponse = z.infer<typeof joinRoomResponseSchema>
+export type IceServer = z.infer<typeof iceServerSchema>
+export type IceServersResponse = z.infer<typeof iceServersResponseSchema>
+export type ChatMessage = z.infer<typeof chatMessageSchema>
+export type ReplyReference = z.infer<typeof replyReferenceSchema>
+export type TypingSignal = z.infer<typeof typingSignalSchema>
+export type Reaction = z.infer<typeof reactionSchema>
+export type Envelope = z.infer<typeof envelopeSchema>
+export type EnvelopeType = keyof typeof envelopePayloadSchemas
+export type EnvelopePayload<K extends EnvelopeType> = z.infer<(typeof envelopePayloadSchemas)[K]>
+
+/**
+ * Validates an inbound message, logging a diagnostic and returning null when it doesn't
+ * match instead of throwing into the caller's handler.
+ */
+export function parseMessage<T extends z.ZodTypeAny>(schema: T, input: unknown, context: string): z.infer<T> | null {
+  const result = schema.safeParse(input)
+  if (result.success) return result.data
+
+  console.warn(`Rejected malformed ${context}:`, result.error.issues, input)
+  return null
+}
+
+/** JSON.parse followed by parseMessage, for raw frames off the wire. */
+export function parseJsonMessage<T extends z.ZodTypeAny>(schema: T, raw: string, context: string): z.infer<T> | null {
+  try {
+    return parseMessage(schema, JSON.parse(raw), context)
+  } catch (error) {
+    console.warn(`Rejected unparseable ${context}:`, error)
+    return null
+  }
+}
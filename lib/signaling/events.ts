@@ -0,0 +1,28 @@
+// Process-local notifications so open signaling streams learn about new mailbox entries
+// without polling storage.
+
+type Listener = () => void
+
+const globalForSignaling = globalThis as typeof globalThis & { signalingListeners?: Map<string, Set<Listener>> }
+const listeners = (globalForSignaling.signalingListeners ??= new Map<string, Set<Listener>>())
+
+const keyFor = (roomId: string, peerId: string) => `${roomId}:${peerId}`
+
+export function subscribe(roomId: string, peerId: string, listener: Listener) {
+  const key = keyFor(roomId, peerId)
+  let set = listeners.get(key)
+  if (!set) {
+    set = new Set()
+    listeners.set(key, set)
+  }
+  set.add(listener)
+
+  return () => {
+    set.delete(listener)
+    if (set.size === 0) listeners.delete(key)
+  }
+}
+
+export function notify(roomId: string, peerId: string) {
+  listeners.get(keyFor(roomId, peerId))?.forEach((listener) => listener())
+}
@@ -0,0 +1,23 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto"
+import { promisify } from "node:util"
+
+const KEY_LENGTH = 32
+
+// scrypt is deliberately slow, so it runs on the thread pool rather than blocking requests
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>
+
+/** Hashes a room password as "salt:hash" (hex, scrypt) for storage. */
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+  return `${salt.toString("hex")}:${hash.toString("hex")}`
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [salt, hash] = stored.split(":")
+  if (!salt || !hash) return false
+
+  const expected = Buffer.from(hash, "hex")
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
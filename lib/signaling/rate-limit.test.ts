@@ -0,0 +1,32 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { clientAddress, createRateLimiter } from "./rate-limit"
+
+const request = (headers: Record<string, string>) => new Request("http://localhost/api/signaling", { headers })
+
+describe("createRateLimiter", () => {
+  it("allows a burst up to capacity, then says how long to wait", () => {
+    const limiter = createRateLimiter({ capacity: 3, refillPerSecond: 0.5 })
+    for (let i = 0; i < 3; i++) assert.equal(limiter.take("a").allowed, true)
+    assert.deepEqual(limiter.take("a"), { allowed: false, retryAfter: 2 })
+  })
+
+  it("keeps a separate bucket per key", () => {
+    const limiter = createRateLimiter({ capacity: 1, refillPerSecond: 1 })
+    assert.equal(limiter.take("a").allowed, true)
+    assert.equal(limiter.take("a").allowed, false)
+    assert.equal(limiter.take("b").allowed, true)
+  })
+})
+
+describe("clientAddress", () => {
+  it("believes only the hop the trusted proxy appended", () => {
+    assert.equal(clientAddress(request({ "x-forwarded-for": "6.6.6.6, 10.0.0.1" })), "10.0.0.1")
+    assert.equal(clientAddress(request({ "x-forwarded-for": "10.0.0.1" })), "10.0.0.1")
+  })
+
+  it("falls back to X-Real-IP, then to a shared bucket", () => {
+    assert.equal(clientAddress(request({ "x-real-ip": "10.0.0.2" })), "10.0.0.2")
+    assert.equal(clientAddress(request({})), "unknown")
+  })
+})
@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server"
+
+// Token-bucket rate limiting for the signaling endpoints. Buckets live in process memory:
+// limits are per server instance, which is enough to stop a single client flooding it.
+
+export interface RateLimitRule {
+  // Burst size
+  capacity: number
+  // Sustained requests per second
+  refillPerSecond: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  // Seconds until enough tokens are available again
+  retryAfter: number
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+// Past this many tracked keys, idle (full) buckets are pruned
+const PRUNE_THRESHOLD = 10000
+
+export function createRateLimiter(rule: RateLimitRule) {
+  const buckets = new Map<string, Bucket>()
+
+  const refill = (bucket: Bucket, now: number) => {
+    const elapsed = (now - bucket.updatedAt) / 1000
+    bucket.tokens = Math.min(rule.capacity, bucket.tokens + elapsed * rule.refillPerSecond)
+    bucket.updatedAt = now
+  }
+
+  const prune = (now: number) => {
+    buckets.forEach((bucket, key) => {
+      refill(bucket, now)
+      if (bucket.tokens >= rule.capacity) buckets.delete(key)
+    })
+  }
+
+  return {
+    take(key: string, cost = 1): RateLimitResult {
+      const now = Date.now()
+      let bucket = buckets.get(key)
+      if (!bucket) {
+        if (buckets.size >= PRUNE_THRESHOLD) prune(now)
+        bucket = { tokens: rule.capacity, updatedAt: now }
+        buckets.set(key, bucket)
+      } else {
+        refill(bucket, now)
+      }
+
+      if (bucket.tokens >= cost) {
+        bucket.tokens -= cost
+        return { allowed: true, retryAfter: 0 }
+      }
+      return { allowed: false, retryAfter: Math.ceil((cost - bucket.tokens) / rule.refillPerSecond) }
+    },
+  }
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>
+
+interface SignalingLimiters {
+  // Every request from one address, shared by everyone behind the same NAT
+  ip: RateLimiter
+  // Every request claiming one peer id
+  peer: RateLimiter
+  // join-room and stream connections, which cost a password check or a long-lived response
+  join: RateLimiter
+}
+
+const globalForSignaling = globalThis as typeof globalThis & { signalingLimiters?: SignalingLimiters }
+
+export function getSignalingLimiters() {
+  return (globalForSignaling.signalingLimiters ??= {
+    ip: createRateLimiter({ capacity: 200, refillPerSecond: 20 }),
+    peer: createRateLimiter({ capacity: 100, refillPerSecond: 10 }),
+    join: createRateLimiter({ capacity: 10, refillPerSecond: 1 / 6 }),
+  })
+}
+
+// Proxies in front of the server that append the address they saw to X-Forwarded-For. Clients can
+// put anything they like to the left of those entries, so only the one the outermost trusted
+// proxy appended is believed. Without a proxy, Next.js fills the header from the socket, but only
+// when the client didn't send one itself, so public deployments should sit behind a proxy.
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.SIGNALING_TRUSTED_PROXY_HOPS) || 1)
+
+/** The client address as seen by the outermost trusted proxy, or by Next.js itself without one. */
+export function clientAddress(request: Request) {
+  const hops =
+    request.headers
+      .get("x-forwarded-for")
+      ?.split(",")
+      .map((hop) => hop.trim())
+      .filter(Boolean) ?? []
+  return hops[hops.length - TRUSTED_PROXY_HOPS] ?? hops[0] ?? request.headers.get("x-real-ip") ?? "unknown"
+}
+
+export function rateLimitedResponse(retryAfter: number) {
+  return NextResponse.json(
+    { error: "Too many requests", retryAfter },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } },
+  )
+}
+
+export class PayloadTooLargeError extends Error {}
+
+/**
+ * Reads a request body as text, giving up as soon as it exceeds `maxBytes` rather than
+ * buffering whatever an abusive client sends.
+ */
+export async function readBodyWithLimit(request: Request, maxBytes: number) {
+  const declared = Number(request.headers.get("content-length"))
+  if (declared > maxBytes) throw new PayloadTooLargeError()
+  if (!request.body) return ""
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    received += value.byteLength
+    if (received > maxBytes) {
+      await reader.cancel()
+      throw new PayloadTooLargeError()
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(received)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return new TextDecoder().decode(body)
+}
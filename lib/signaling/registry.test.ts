@@ -0,0 +1,90 @@
+import assert from "node:assert/strict"
+import { beforeEach, describe, it } from "node:test"
+import { createMemoryStorage, type SignalingStorage } from "@/lib/signaling/storage"
+import { joinRoom, leaveRoom, PEER_TIMEOUT, pendingEvents, touchPeer } from "./registry"
+
+let storage: SignalingStorage
+
+type JoinOptions = Omit<Parameters<typeof joinRoom>[2], "publicKey">
+
+const join = (peerId: string, options: JoinOptions = {}) =>
+  joinRoom("room", peerId, { publicKey: `key-${peerId}`, ...options }, storage)
+
+async function joinOk(peerId: string, options: JoinOptions = {}) {
+  const result = await join(peerId, options)
+  assert.ok(result.ok, `${peerId} should have joined, got ${JSON.stringify(result)}`)
+  return result
+}
+
+describe("joinRoom", () => {
+  beforeEach(() => {
+    storage = createMemoryStorage()
+  })
+
+  it("creates the room with the first joiner's settings and lists earlier peers to later ones", async () => {
+    assert.deepEqual((await joinOk("a", { settings: { maxPeers: 3 } })).peers, [])
+    const { peers, keys } = await joinOk("b")
+    assert.deepEqual(peers, ["a"])
+    assert.deepEqual(keys, { a: "key-a" })
+    assert.equal((await storage.getRoom("room"))?.settings.maxPeers, 3)
+  })
+
+  it("turns joiners away once the room is full", async () => {
+    await joinOk("a", { settings: { maxPeers: 2 } })
+    await joinOk("b")
+    assert.deepEqual(await join("c"), { ok: false, code: "ROOM_FULL" })
+  })
+
+  it("requires the password the room was created with", async () => {
+    await joinOk("a", { settings: { password: "secret" } })
+    assert.deepEqual(await join("b"), { ok: false, code: "PASSWORD_REQUIRED" })
+    assert.deepEqual(await join("b", { password: "guess" }), { ok: false, code: "INVALID_PASSWORD" })
+    await joinOk("b", { password: "secret" })
+  })
+
+  it("validates settings only when the join creates the room", async () => {
+    const invalid = { maxPeers: 1 }
+    const rejected = await join("a", { settings: invalid })
+    assert.equal(rejected.ok, false)
+    assert.equal(!rejected.ok && rejected.code, "INVALID_SETTINGS")
+    assert.equal(await storage.getRoom("room"), undefined)
+
+    await joinOk("a")
+    // Ignored rather than rejected, since they wouldn't apply to the existing room anyway
+    await joinOk("b", { settings: invalid })
+  })
+
+  it("lets a peer id be reclaimed only by its own session", async () => {
+    const { sessionId } = await joinOk("a")
+    assert.deepEqual(await join("a"), { ok: false, code: "PEER_ID_TAKEN" })
+    assert.deepEqual(await join("a", { sessionId: "someone-else" }), { ok: false, code: "PEER_ID_TAKEN" })
+
+    const reclaimed = await joinOk("a", { sessionId })
+    assert.equal(reclaimed.sessionId, sessionId)
+  })
+
+  it("lets a reclaiming peer back into a full room without its password", async () => {
+    const { sessionId } = await joinOk("a", { settings: { maxPeers: 2, password: "secret" } })
+    await joinOk("b", { password: "secret" })
+    await joinOk("a", { sessionId })
+  })
+
+  it("evicts peers that went quiet and tells the rest of the room", async () => {
+    const { sessionId } = await joinOk("a")
+    await joinOk("b")
+    await storage.updateRoom("room", (room) => {
+      room!.peers.b.lastSeen = Date.now() - PEER_TIMEOUT - 1
+      return { room, result: undefined }
+    })
+
+    assert.equal(await touchPeer("room", "a", sessionId, storage), true)
+    assert.deepEqual(Object.keys((await storage.getRoom("room"))!.peers), ["a"])
+    assert.deepEqual(await pendingEvents("room", "a", 0, storage), [{ type: "peer-left", from: "b", seq: 1 }])
+  })
+
+  it("ignores a leave from a session that has been replaced", async () => {
+    await joinOk("a")
+    await leaveRoom("room", "a", "stale-session", storage)
+    assert.deepEqual(Object.keys((await storage.getRoom("room"))!.peers), ["a"])
+  })
+})
@@ -0,0 +1,281 @@
+// Room registry backing /api/signaling.
+// Each peer owns a mailbox of sequenced offers, answers and ICE candidates addressed to it.
+// Events stay queued until the peer acknowledges them, so a dropped poll or stream never
+// loses anything. Peers that stop sending requests or heartbeats are evicted and the rest
+// of the room is told via "peer-left". Rooms carry the creator's policies (capacity, password,
+// idle expiry) and outlive their last member until they expire.
+// State lives in the configured SignalingStorage.
+
+import { randomUUID } from "node:crypto"
+import { notify } from "@/lib/signaling/events"
+import { hashPassword, verifyPassword } from "@/lib/signaling/password"
+import {
+  getSignalingStorage,
+  type PeerRecord,
+  type RoomRecord,
+  type RoomSettings,
+  type RoomUpdate,
+  type SignalingStorage,
+} from "@/lib/signaling/storage"
+import { roomSettingsInputSchema, type JoinErrorCode, type SignalingEvent, type SignalingMessage } from "@/lib/protocol"
+
+// Clients heartbeat every 10 seconds; three missed beats and the peer is gone
+export const PEER_TIMEOUT = 30000
+const SWEEP_INTERVAL = 60000
+
+export const DEFAULT_MAX_PEERS = 8
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = 10
+
+type ResolvedSettings = { ok: true; settings: RoomSettings } | { ok: false; error: string }
+
+/** Validates creator-supplied settings against the protocol schema and turns them into stored ones. */
+export async function resolveRoomSettings(input: unknown = {}): Promise<ResolvedSettings> {
+  const parsed = roomSettingsInputSchema.safeParse(input)
+  if (!parsed.success) return { ok: false, error: parsed.error.issues[0].message }
+
+  const { maxPeers = DEFAULT_MAX_PEERS, idleTimeoutMinutes = DEFAULT_IDLE_TIMEOUT_MINUTES, password } = parsed.data
+  return {
+    ok: true,
+    settings: {
+      maxPeers,
+      idleTimeout: idleTimeoutMinutes * 60000,
+      ...(password ? { passwordHash: await hashPassword(password) } : {}),
+    },
+  }
+}
+
+const isExpired = (room: RoomRecord, now: number) => now - room.lastActivity > room.settings.idleTimeout
+
+const createPeer = (now: number, publicKey: string): PeerRecord => ({
+  sessionId: randomUUID(),
+  events: [],
+  nextSeq: 1,
+  lastSeen: now,
+  publicKey,
+})
+
+type Post = (room: RoomRecord, to: string, message: SignalingMessage) => boolean
+
+/**
+ * Wraps storage.updateRoom with the bookkeeping every change needs: stale peers are evicted
+ * and expired rooms discarded first, and peers that received events are notified once the
+ * update has been persisted.
+ */
+async function changeRoom<T>(
+  storage: SignalingStorage,
+  roomId: string,
+  change: (room: RoomRecord | undefined, post: Post, now: number) => RoomUpdate<T>,
+) {
+  const now = Date.now()
+  const recipients = new Set<string>()
+
+  const post: Post = (room, to, message) => {
+    const peer = room.peers[to]
+    if (!peer) return false
+    peer.events.push({ ...message, seq: peer.nextSeq++ })
+    recipients.add(to)
+    return true
+  }
+
+  const result = await storage.updateRoom(roomId, (stored) => {
+    if (stored) evictStalePeers(stored, post, now)
+    // Members keep lastActivity fresh, so an expired room has nobody left to notify
+    const current = stored && !isExpired(stored, now) ? stored : undefined
+    const { room, result } = change(current, post, now)
+    return { room, result }
+  })
+
+  recipients.forEach((peerId) => notify(roomId, peerId))
+  return result
+}
+
+function removePeer(room: RoomRecord, peerId: string, post: Post) {
+  delete room.peers[peerId]
+  Object.keys(room.peers).forEach((id) => post(room, id, { type: "peer-left", from: peerId }))
+}
+
+function evictStalePeers(room: RoomRecord, post: Post, now: number) {
+  for (const [peerId, peer] of Object.entries(room.peers)) {
+    if (now - peer.lastSeen > PEER_TIMEOUT) {
+      removePeer(room, peerId, post)
+    }
+  }
+}
+
+export type JoinResult =
+  | { ok: true; peers: string[]; keys: Record<string, string>; sessionId: string }
+  | { ok: false; code: JoinErrorCode; error?: string }
+
+// What a join attempt needs done outside the storage update before it can go ahead
+type JoinStep = JoinResult | "resolve-settings" | "verify-password"
+
+/**
+ * Registers a peer in a room with the public key it signs its envelopes with, and returns the
+ * ids and keys of the live peers already there. The first
+ * peer creates the room with `settings`, which are validated only then; later joiners must
+ * satisfy them instead. A peer id that is already present can only be reclaimed by presenting
+ * its `sessionId`.
+ *
+ * scrypt is too slow to run inside a storage update, so hashing a new room's password and
+ * checking a joiner's happen between attempts, and the update is retried with the outcome.
+ */
+export async function joinRoom(
+  roomId: string,
+  peerId: string,
+  options: { publicKey: string; password?: string; settings?: unknown; sessionId?: string },
+  storage: SignalingStorage = getSignalingStorage(),
+): Promise<JoinResult> {
+  let settings: RoomSettings | undefined
+  // The stored hash the joiner's password was found to match
+  let verifiedHash: string | undefined
+
+  for (;;) {
+    const step = await changeRoom<JoinStep>(storage, roomId, (room, _post, now) => {
+      if (!room && !settings) return { room, result: "resolve-settings" }
+
+      const next = room ?? { id: roomId, settings: settings!, peers: {}, createdAt: now, lastActivity: now }
+      const existingPeers = Object.keys(next.peers).filter((id) => id !== peerId)
+      const current = next.peers[peerId]
+      if (current && current.sessionId !== options.sessionId) {
+        return { room, result: { ok: false, code: "PEER_ID_TAKEN" } }
+      }
+      const rejoining = current !== undefined
+
+      if (room && !rejoining) {
+        const { passwordHash, maxPeers } = room.settings
+        if (passwordHash) {
+          if (!options.password) {
+            return { room, result: { ok: false, code: "PASSWORD_REQUIRED" } }
+          }
+          if (verifiedHash !== passwordHash) return { room, result: "verify-password" }
+        }
+        if (existingPeers.length >= maxPeers) {
+          return { room, result: { ok: false, code: "ROOM_FULL" } }
+        }
+      }
+
+      const peer = current ?? createPeer(now, options.publicKey)
+      peer.lastSeen = now
+      peer.publicKey = options.publicKey
+      next.peers[peerId] = peer
+      next.lastActivity = now
+      const keys = Object.fromEntries(existingPeers.map((id) => [id, next.peers[id].publicKey]))
+      return { room: next, result: { ok: true, peers: existingPeers, keys, sessionId: peer.sessionId } }
+    })
+
+    if (step === "resolve-settings") {
+      const resolved = await resolveRoomSettings(options.settings)
+      if (!resolved.ok) return { ok: false, code: "INVALID_SETTINGS", error: resolved.error }
+      settings = resolved.settings
+    } else if (step === "verify-password") {
+      // Read again, since the room may have been recreated with another password meanwhile
+      const passwordHash = (await storage.getRoom(roomId))?.settings.passwordHash
+      if (passwordHash && !(await verifyPassword(options.password!, passwordHash))) {
+        return { ok: false, code: "INVALID_PASSWORD" }
+      }
+      verifiedHash = passwordHash
+    } else {
+      return step
+    }
+  }
+}
+
+/** Removes a peer and tells everyone still in the room. */
+export function leaveRoom(
+  roomId: string,
+  peerId: string,
+  sessionId: string,
+  storage: SignalingStorage = getSignalingStorage(),
+) {
+  return changeRoom(storage, roomId, (room, post) => {
+    if (room?.peers[peerId]?.sessionId === sessionId) removePeer(room, peerId, post)
+    return { room, result: undefined }
+  })
+}
+
+/**
+ * Records that the peer is still alive; resolves false if it has been evicted or the session
+ * has since been replaced.
+ */
+export function touchPeer(
+  roomId: string,
+  peerId: string,
+  sessionId: string,
+  storage: SignalingStorage = getSignalingStorage(),
+) {
+  return changeRoom(storage, roomId, (room, _post, now) => {
+    const peer = room?.peers[peerId]
+    if (!room || !peer || peer.sessionId !== sessionId) return { room, result: false }
+    peer.lastSeen = now
+    room.lastActivity = now
+    return { room, result: true }
+  })
+}
+
+export async function isInRoom(
+  roomId: string,
+  peerId: string,
+  sessionId: string,
+  storage: SignalingStorage = getSignalingStorage(),
+) {
+  const room = await storage.getRoom(roomId)
+  return room?.peers[peerId]?.sessionId === sessionId
+}
+
+/** The public key a peer joined with, or undefined if it isn't in the room. */
+export async function getPublicKey(roomId: string, peerId: string, storage: SignalingStorage = getSignalingStorage()) {
+  return (await storage.getRoom(roomId))?.peers[peerId]?.publicKey
+}
+
+/** Appends to the target peer's mailbox; resolves false when the target isn't in the room. */
+export function queueSignal(
+  roomId: string,
+  to: string,
+  message: SignalingMessage,
+  storage: SignalingStorage = getSignalingStorage(),
+) {
+  return changeRoom(storage, roomId, (room, post) => ({ room, result: room ? post(room, to, message) : false }))
+}
+
+/** Drops every event up to and including `seq` from the peer's mailbox. */
+export function acknowledge(
+  roomId: string,
+  peerId: string,
+  seq: number,
+  storage: SignalingStorage = getSignalingStorage(),
+) {
+  return changeRoom(storage, roomId, (room) => {
+    const peer = room?.peers[peerId]
+    if (peer) {
+      peer.events = peer.events.filter((event) => event.seq > seq)
+    }
+    return { room, result: undefined }
+  })
+}
+
+/** Lists the peer's unacknowledged events with a sequence number after `after`, oldest first. */
+export async function pendingEvents(
+  roomId: string,
+  peerId: string,
+  after = 0,
+  storage: SignalingStorage = getSignalingStorage(),
+): Promise<SignalingEvent[]> {
+  const room = await storage.getRoom(roomId)
+  return room?.peers[peerId]?.events.filter((event) => event.seq > after) ?? []
+}
+
+const globalForSignaling = globalThis as typeof globalThis & { signalingLastSweep?: number }
+
+/**
+ * Evicts stale peers and deletes expired rooms, at most once per SWEEP_INTERVAL. Rooms nobody
+ * talks to would otherwise never see another request to trigger either.
+ */
+export async function sweepStaleRooms(storage: SignalingStorage = getSignalingStorage()) {
+  const now = Date.now()
+  if (now - (globalForSignaling.signalingLastSweep ?? 0) < SWEEP_INTERVAL) return
+  globalForSignaling.signalingLastSweep = now
+
+  for (const roomId of await storage.listRoomIds()) {
+    await changeRoom(storage, roomId, (room) => ({ room, result: undefined }))
+  }
+}
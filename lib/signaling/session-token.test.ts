@@ -0,0 +1,45 @@
+import assert from "node:assert/strict"
+import { createHmac } from "node:crypto"
+import { describe, it } from "node:test"
+import { issueSessionToken, SESSION_TOKEN_TTL, verifySessionToken } from "./session-token"
+
+const SECRET = "test-secret"
+process.env.SIGNALING_TOKEN_SECRET = SECRET
+
+// Signs arbitrary claims the way the server would, to check that verification looks past the signature
+function signClaims(claims: object) {
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url")
+  return `${payload}.${createHmac("sha256", SECRET).update(payload).digest("base64url")}`
+}
+
+describe("session tokens", () => {
+  const claims = { roomId: "room", peerId: "a", sessionId: "session" }
+
+  it("verifies a token for the room and peer it was issued to", () => {
+    const verified = verifySessionToken(issueSessionToken(claims), "room", "a")
+    assert.ok(verified)
+    assert.equal(verified.sessionId, "session")
+    assert.ok(verified.expiresAt > Date.now() && verified.expiresAt <= Date.now() + SESSION_TOKEN_TTL)
+  })
+
+  it("rejects a token presented for another room or peer", () => {
+    const token = issueSessionToken(claims)
+    assert.equal(verifySessionToken(token, "other-room", "a"), null)
+    assert.equal(verifySessionToken(token, "room", "b"), null)
+  })
+
+  it("rejects tampered claims and malformed or missing tokens", () => {
+    const [, signature] = issueSessionToken(claims).split(".")
+    const forged = Buffer.from(JSON.stringify({ ...claims, peerId: "b", expiresAt: Date.now() + 1000 })).toString(
+      "base64url",
+    )
+    assert.equal(verifySessionToken(`${forged}.${signature}`, "room", "b"), null)
+    assert.equal(verifySessionToken("garbage", "room", "a"), null)
+    assert.equal(verifySessionToken(undefined, "room", "a"), null)
+  })
+
+  it("rejects an expired token", () => {
+    assert.ok(verifySessionToken(signClaims({ ...claims, expiresAt: Date.now() + 1000 }), "room", "a"))
+    assert.equal(verifySessionToken(signClaims({ ...claims, expiresAt: Date.now() - 1 }), "room", "a"), null)
+  })
+})
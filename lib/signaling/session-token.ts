@@ -0,0 +1,72 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto"
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import path from "node:path"
+
+// Session tokens bind a peer id to the room and join session they were issued for.
+// Format: base64url(JSON claims) + "." + base64url(HMAC-SHA256 of the claims part).
+
+export const SESSION_TOKEN_TTL = 24 * 60 * 60 * 1000
+
+export interface SessionClaims {
+  roomId: string
+  peerId: string
+  // Matches PeerRecord.sessionId, so a token dies with the session that issued it
+  sessionId: string
+  expiresAt: number
+}
+
+const globalForSignaling = globalThis as typeof globalThis & { signalingTokenSecret?: string }
+
+/**
+ * SIGNALING_TOKEN_SECRET in production. In development a generated secret is kept next to the
+ * file store so tokens stay valid across dev-server restarts.
+ */
+function loadSecret() {
+  if (process.env.SIGNALING_TOKEN_SECRET) return process.env.SIGNALING_TOKEN_SECRET
+
+  if (process.env.NODE_ENV !== "development") {
+    console.warn("SIGNALING_TOKEN_SECRET is not set; session tokens will not survive a server restart")
+    return randomBytes(32).toString("hex")
+  }
+
+  const secretPath = path.join(process.cwd(), ".next", "cache", "signaling-token-secret")
+  try {
+    return readFileSync(secretPath, "utf8").trim()
+  } catch {
+    const secret = randomBytes(32).toString("hex")
+    mkdirSync(path.dirname(secretPath), { recursive: true })
+    writeFileSync(secretPath, secret, { mode: 0o600 })
+    return secret
+  }
+}
+
+const getSecret = () => (globalForSignaling.signalingTokenSecret ??= loadSecret())
+
+const sign = (payload: string) => createHmac("sha256", getSecret()).update(payload).digest("base64url")
+
+export function issueSessionToken(claims: Omit<SessionClaims, "expiresAt">) {
+  const payload = Buffer.from(JSON.stringify({ ...claims, expiresAt: Date.now() + SESSION_TOKEN_TTL })).toString(
+    "base64url",
+  )
+  return `${payload}.${sign(payload)}`
+}
+
+/** Returns the token's claims if it is authentic, unexpired and issued to this peer in this room. */
+export function verifySessionToken(token: string | undefined, roomId: string, peerId: string): SessionClaims | null {
+  if (!token) return null
+
+  const [payload, signature] = token.split(".")
+  if (!payload || !signature) return null
+
+  const expected = Buffer.from(sign(payload))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as SessionClaims
+    if (claims.roomId !== roomId || claims.peerId !== peerId || claims.expiresAt < Date.now()) return null
+    return claims
+  } catch {
+    return null
+  }
+}
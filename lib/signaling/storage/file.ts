@@ -0,0 +1,63 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import path from "node:path"
+import type { RoomRecord, SignalingStorage } from "./types"
+
+/**
+ * Keeps every room in a single JSON file so signaling state survives a server restart.
+ * Writes go through a temp file and rename so a crash never leaves a half-written file.
+ */
+export function createFileStorage(filePath: string): SignalingStorage {
+  let rooms: Record<string, RoomRecord> | null = null
+  // Serialises reads and writes so concurrent requests can't interleave
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const load = async () => {
+    if (rooms) return rooms
+    try {
+      rooms = JSON.parse(await readFile(filePath, "utf8")) as Record<string, RoomRecord>
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Signaling store at ${filePath} is unreadable, starting empty:`, error)
+      }
+      rooms = {}
+    }
+    return rooms
+  }
+
+  const persist = async (data: Record<string, RoomRecord>) => {
+    await mkdir(path.dirname(filePath), { recursive: true })
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await writeFile(tempPath, JSON.stringify(data), "utf8")
+    await rename(tempPath, filePath)
+  }
+
+  const enqueue = <T>(task: () => Promise<T>) => {
+    const run = queue.then(task)
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  return {
+    getRoom(roomId) {
+      return enqueue(async () => (await load())[roomId])
+    },
+
+    listRoomIds() {
+      return enqueue(async () => Object.keys(await load()))
+    },
+
+    updateRoom(roomId, update) {
+      return enqueue(async () => {
+        const data = await load()
+        const { room, result } = update(data[roomId])
+        if (room) {
+          data[roomId] = room
+        } else {
+          delete data[roomId]
+        }
+        await persist(data)
+        return result
+      })
+    },
+  }
+}
@@ -0,0 +1,32 @@
+import path from "node:path"
+import { createFileStorage } from "./file"
+import { createMemoryStorage } from "./memory"
+import type { SignalingStorage } from "./types"
+
+export type { PeerRecord, RoomRecord, RoomSettings, RoomUpdate, SignalingStorage } from "./types"
+export { createFileStorage, createMemoryStorage }
+
+// Keep the backend on globalThis so dev-server hot reloads reuse it
+const globalForSignaling = globalThis as typeof globalThis & { signalingStorage?: SignalingStorage }
+
+/**
+ * Picks the backend from SIGNALING_STORE ("memory" or "file"). Development defaults to the
+ * file store so peers aren't stranded every time `next dev` restarts.
+ */
+function createStorageFromEnv(): SignalingStorage {
+  const kind = process.env.SIGNALING_STORE ?? (process.env.NODE_ENV === "development" ? "file" : "memory")
+
+  if (kind === "file") {
+    const filePath =
+      process.env.SIGNALING_STORE_PATH ?? path.join(process.cwd(), ".next", "cache", "signaling-store.json")
+    return createFileStorage(filePath)
+  }
+  if (kind !== "memory") {
+    console.warn(`Unknown SIGNALING_STORE "${kind}", falling back to memory`)
+  }
+  return createMemoryStorage()
+}
+
+export function getSignalingStorage() {
+  return (globalForSignaling.signalingStorage ??= createStorageFromEnv())
+}
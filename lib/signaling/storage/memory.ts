@@ -0,0 +1,25 @@
+import type { RoomRecord, SignalingStorage } from "./types"
+
+export function createMemoryStorage(): SignalingStorage {
+  const rooms = new Map<string, RoomRecord>()
+
+  return {
+    async getRoom(roomId) {
+      return rooms.get(roomId)
+    },
+
+    async listRoomIds() {
+      return Array.from(rooms.keys())
+    },
+
+    async updateRoom(roomId, update) {
+      const { room, result } = update(rooms.get(roomId))
+      if (room) {
+        rooms.set(roomId, room)
+      } else {
+        rooms.delete(roomId)
+      }
+      return result
+    },
+  }
+}
@@ -0,0 +1,47 @@
+import type { SignalingEvent } from "@/lib/protocol"
+
+export interface PeerRecord {
+  // Fresh on every join; session tokens carry it so they can't outlive the session
+  sessionId: string
+  // Unacknowledged events in sequence order
+  events: SignalingEvent[]
+  nextSeq: number
+  // Epoch ms of the peer's last request or heartbeat
+  lastSeen: number
+  // What the peer signs its data-channel envelopes with, handed to the rest of the room
+  publicKey: string
+}
+
+export interface RoomSettings {
+  maxPeers: number
+  // Ms without any member activity before the room is discarded
+  idleTimeout: number
+  // "salt:hash" from hashPassword, absent for open rooms
+  passwordHash?: string
+}
+
+// Plain JSON-serialisable shape so any backend can persist it as-is
+export interface RoomRecord {
+  id: string
+  settings: RoomSettings
+  peers: Record<string, PeerRecord>
+  createdAt: number
+  lastActivity: number
+}
+
+export interface RoomUpdate<T> {
+  // undefined deletes the room
+  room: RoomRecord | undefined
+  result: T
+}
+
+/**
+ * Storage backend for signaling state. Backends only load and persist room records;
+ * all protocol logic lives in the registry so every backend behaves the same.
+ */
+export interface SignalingStorage {
+  getRoom(roomId: string): Promise<RoomRecord | undefined>
+  listRoomIds(): Promise<string[]>
+  /** Applies `update` to the current record and persists the result atomically per room. */
+  updateRoom<T>(roomId: string, update: (room: RoomRecord | undefined) => RoomUpdate<T>): Promise<T>
+}
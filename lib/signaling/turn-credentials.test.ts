@@ -0,0 +1,33 @@
+import assert from "node:assert/strict"
+import { afterEach, describe, it } from "node:test"
+import { DEFAULT_ICE_SERVERS } from "@/lib/ice-servers"
+import { getIceServers, mintTurnCredentials } from "./turn-credentials"
+
+const ENV_KEYS = ["ICE_STUN_URLS", "TURN_URLS", "TURN_SHARED_SECRET", "TURN_CREDENTIAL_TTL"] as const
+
+describe("mintTurnCredentials", () => {
+  it("matches the TURN REST scheme coturn checks", () => {
+    // Expected credential from: printf '1700003600:alice' | openssl dgst -sha1 -hmac north -binary | base64
+    assert.deepEqual(mintTurnCredentials("north", "alice", 3600, 1700000000500), {
+      username: "1700003600:alice",
+      credential: "wjwSXO2ch1B6VaLTLMy2Avn5O9o=",
+      expiresAt: 1700003600000,
+    })
+  })
+})
+
+describe("getIceServers", () => {
+  afterEach(() => ENV_KEYS.forEach((key) => delete process.env[key]))
+
+  it("falls back to the default STUN servers", () => {
+    assert.deepEqual(getIceServers("alice"), { iceServers: DEFAULT_ICE_SERVERS })
+  })
+
+  it("adds TURN with credentials minted from the shared secret", () => {
+    Object.assign(process.env, { ICE_STUN_URLS: "", TURN_URLS: "turn:turn.example.com", TURN_SHARED_SECRET: "north" })
+    const { iceServers, expiresAt } = getIceServers("alice")
+    assert.equal(iceServers.length, 1)
+    assert.deepEqual(iceServers[0].urls, ["turn:turn.example.com"])
+    assert.equal(iceServers[0].username, `${expiresAt! / 1000}:alice`)
+  })
+})
@@ -0,0 +1,55 @@
+import { createHmac } from "node:crypto"
+import { DEFAULT_ICE_SERVERS } from "@/lib/ice-servers"
+import type { IceServer, IceServersResponse } from "@/lib/protocol"
+
+// ICE server configuration comes from the environment:
+//   ICE_STUN_URLS          comma-separated STUN urls (defaults to DEFAULT_ICE_SERVERS)
+//   TURN_URLS              comma-separated TURN urls, e.g. turn:turn.example.com:3478?transport=udp
+//   TURN_SHARED_SECRET     coturn's static-auth-secret; enables time-limited credentials
+//   TURN_CREDENTIAL_TTL    lifetime of minted credentials in seconds (default 3600)
+//   TURN_USERNAME / TURN_CREDENTIAL   static credentials, used when no shared secret is set
+
+const DEFAULT_CREDENTIAL_TTL = 3600
+
+const splitList = (value: string | undefined) =>
+  value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean) ?? []
+
+/**
+ * TURN REST API credentials (draft-uberti-behave-turn-rest): the username is
+ * "<expiry unix seconds>:<user>" and the password is base64(HMAC-SHA1(secret, username)),
+ * which coturn verifies with use-auth-secret without any per-user state.
+ */
+export function mintTurnCredentials(secret: string, user: string, ttlSeconds: number, now = Date.now()) {
+  const expiry = Math.floor(now / 1000) + ttlSeconds
+  const username = `${expiry}:${user}`
+  const credential = createHmac("sha1", secret).update(username).digest("base64")
+  return { username, credential, expiresAt: expiry * 1000 }
+}
+
+export function getIceServers(user: string): IceServersResponse {
+  const stunUrls = splitList(process.env.ICE_STUN_URLS)
+  const iceServers: IceServer[] =
+    process.env.ICE_STUN_URLS === undefined ? [...DEFAULT_ICE_SERVERS] : stunUrls.length > 0 ? [{ urls: stunUrls }] : []
+
+  const turnUrls = splitList(process.env.TURN_URLS)
+  if (turnUrls.length === 0) return { iceServers }
+
+  const secret = process.env.TURN_SHARED_SECRET
+  if (secret) {
+    const ttl = Number(process.env.TURN_CREDENTIAL_TTL) || DEFAULT_CREDENTIAL_TTL
+    const { username, credential, expiresAt } = mintTurnCredentials(secret, user, ttl)
+    iceServers.push({ urls: turnUrls, username, credential })
+    return { iceServers, expiresAt }
+  }
+
+  const { TURN_USERNAME: username, TURN_CREDENTIAL: credential } = process.env
+  if (username && credential) {
+    iceServers.push({ urls: turnUrls, username, credential })
+  } else {
+    console.warn("TURN_URLS is set without TURN_SHARED_SECRET or TURN_USERNAME/TURN_CREDENTIAL; skipping TURN")
+  }
+  return { iceServers }
+}
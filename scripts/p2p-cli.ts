@@ -0,0 +1,131 @@
+/**
+ * Headless chat client: joins a room through /api/signaling, prints incoming messages and sends
+ * each stdin line as chat. Node has no WebRTC of its own, so --webrtc names a module that exports
+ * RTCPeerConnection, e.g. `@roamhq/wrtc` or `node-datachannel/polyfill`.
+ *
+ *   pnpm p2p-cli --server http://localhost:3000 --room ABCD1234 --name bot --webrtc @roamhq/wrtc
+ *
+ * With piped stdin, lines wait for the first connected peer and the client leaves at end of input,
+ * once every line sent has been delivered or given up on.
+ */
+import { createInterface } from "node:readline"
+import { parseArgs } from "node:util"
+import { HttpSignalingTransport, P2PRoom, generatePeerId } from "@/lib/p2p"
+
+const USAGE = `Usage: p2p-cli --room <id> --webrtc <module> [--server <url>] [--name <name>] [--password <password>] [--verbose]`
+
+async function loadPeerConnection(moduleName: string): Promise<typeof RTCPeerConnection> {
+  const mod = await import(moduleName)
+  const RTCPeerConnectionImpl = mod.RTCPeerConnection ?? mod.default?.RTCPeerConnection
+  if (typeof RTCPeerConnectionImpl !== "function") {
+    throw new Error(`${moduleName} does not export RTCPeerConnection`)
+  }
+  return RTCPeerConnectionImpl
+}
+
+function timestamp() {
+  return new Date().toLocaleTimeString()
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      server: { type: "string", default: process.env.P2P_SERVER ?? "http://localhost:3000" },
+      room: { type: "string" },
+      name: { type: "string" },
+      password: { type: "string" },
+      webrtc: { type: "string", default: process.env.P2P_WEBRTC },
+      verbose: { type: "boolean", short: "v", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  })
+
+  if (values.help || !values.room || !values.webrtc) {
+    console.error(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  const RTCPeerConnectionImpl = await loadPeerConnection(values.webrtc)
+  const peerId = generatePeerId()
+  const username = values.name ?? `cli-${peerId.substring(0, 6)}`
+  const room = new P2PRoom({
+    transport: new HttpSignalingTransport({ peerId, baseUrl: values.server.replace(/\/$/, "") }),
+    createPeerConnection: (config) => new RTCPeerConnectionImpl(config),
+  })
+
+  room.on("message", ({ sender, content, replyTo }) =>
+    console.log(`[${timestamp()}] ${sender}${replyTo ? ` (replying to ${replyTo.sender})` : ""}: ${content}`),
+  )
+  room.on("system", (text) => {
+    if (values.verbose) console.error(`[${timestamp()}] ${text}`)
+  })
+
+  let shuttingDown = false
+  const shutdown = async (code = 0) => {
+    if (shuttingDown) return
+    shuttingDown = true
+    await room.leave()
+    process.exit(code)
+  }
+  room.on("disconnected", (reason) => {
+    console.error(`Disconnected from ${values.room}: ${reason}`)
+    shutdown(1)
+  })
+  process.on("SIGINT", () => shutdown())
+  process.on("SIGTERM", () => shutdown())
+
+  const outcome = await room.join(values.room, { username, password: values.password })
+  if (!outcome.success) {
+    console.error(`Failed to join room ${values.room}: ${outcome.code ?? outcome.error ?? "unknown error"}`)
+    process.exit(1)
+  }
+  console.error(`Joined ${values.room} as ${username} (${peerId})`)
+
+  // Lines typed before anyone is connected wait here rather than being dropped
+  const outbox: string[] = []
+  // Sent messages still waiting on acks, which leaving would cut short
+  const inFlight = new Set<string>()
+  let inputClosed = false
+
+  const flush = () => {
+    while (outbox.length > 0) {
+      const { id, recipients } = room.sendChat(outbox[0])
+      if (recipients === 0) break
+      inFlight.add(id)
+      outbox.shift()
+    }
+    if (inputClosed && outbox.length === 0 && inFlight.size === 0) shutdown()
+  }
+
+  room.on("delivery", ({ id, state }) => {
+    if (state === "sending" || !inFlight.delete(id)) return
+    if (state === "failed") console.error(`* Message ${id.substring(0, 6)} was not delivered to every peer`)
+    flush()
+  })
+
+  let connected = new Set<string>()
+  room.on("peers", (peers) => {
+    const now = new Set(peers.filter((peer) => peer.dataChannel?.readyState === "open").map((peer) => peer.id))
+    now.forEach((id) => connected.has(id) || console.error(`* ${id.substring(0, 6)} connected`))
+    connected.forEach((id) => now.has(id) || console.error(`* ${id.substring(0, 6)} disconnected`))
+    connected = now
+    flush()
+  })
+
+  const input = createInterface({ input: process.stdin, terminal: false })
+  input.on("line", (line) => {
+    const content = line.trim()
+    if (!content) return
+    outbox.push(content)
+    flush()
+  })
+  input.on("close", () => {
+    inputClosed = true
+    flush()
+  })
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})